@@ -2,18 +2,59 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import PhysicsWorld, { PhysicsWorldHandle } from './components/PhysicsWorld';
 import ControlPanel from './components/ControlPanel';
-import { PhysicsConfig, SchemeMode } from './types';
+import { CollisionEvent, EditTool, ExportSettings, ForceField, ForceFieldKind, PhysicsConfig, PosterSettings, RecordingSettings, SavedLook, SavedScene, SceneSnapshot, SchemeMode, WallType } from './types';
 import { generateFallingPoem } from './services/geminiService';
 import { fetchColorScheme } from './services/colorService';
-import { AudioService } from './services/audioService';
+import { AudioService, IMPACT_FULL_VOLUME_SPEED } from './services/audioService';
+import { createForceField } from './services/forceFieldService';
+import { randomSeed, SeededRandom } from './services/randomService';
+import { createSavedScene, downloadSnapshot, loadGallery, parseSnapshot, saveGallery, SNAPSHOT_VERSION } from './services/snapshotService';
+import { normalizeAngle } from './services/gravityService';
+import { createSavedLook, loadLooks, saveLooks } from './services/lookService';
+import { DEFAULT_RECORDING, downloadRecording, TakeRecorder } from './services/recordingService';
+import { DEFAULT_EXPORT, OfflineProgress, renderTake } from './services/offlineRenderService';
+import { capturePoster, DEFAULT_POSTER } from './services/posterService';
+import { getMaterial } from './services/materialService';
+import { Simulation, SimulationService } from './services/simulationService';
+import { WorkerSimulation } from './services/workerSimulation';
+import { getAutoTypeDelay, PERFORM_TAIL_MS, REVEAL_DELAY_MS, TypewriterService, WORD_PAUSE_MS } from './services/typewriterService';
+import { isCharacterKey, splitGraphemes } from './services/textService';
 
 const INITIAL_CONFIG: PhysicsConfig = {
   gravity: 1,
+  gravityAngle: 0,
+  gravitySpin: 0,
+  seed: randomSeed(),
+  fixedStep: false,
+  workerPhysics: false,
+  renderer: 'canvas',
+  look: { style: 'plain', intensity: 0.5, size: 4 },
   restitution: 0.6,
   friction: 0.5,
   scale: 1,
   fontSize: 48,
   spacing: 1.0, // Default spacing multiplier (100% of standard bbox)
+  bodyShape: 'box',
+  wholeWords: false,
+  linkWords: false,
+  linkStiffness: 0.5,
+  linkBreakStrength: 40,
+  sediment: false,
+  materials: [],
+  impactThreshold: 3,
+  impactRateLimit: 150,
+  shatter: false,
+  shatterSpeed: 12,
+  jellyStiffness: 0.15,
+  jellyDamping: 0.05,
+  // Matches Matter's body defaults so the classic floor-and-sides box behaves as before
+  boundaries: {
+    [WallType.FLOOR]: { enabled: true, restitution: 0, friction: 0.1, wrap: false },
+    [WallType.WALL_LEFT]: { enabled: true, restitution: 0, friction: 0.1, wrap: false },
+    [WallType.WALL_RIGHT]: { enabled: true, restitution: 0, friction: 0.1, wrap: false },
+    [WallType.CEILING]: { enabled: false, restitution: 0, friction: 0.1, wrap: false },
+  },
+  container: null,
 };
 
 const FONTS = [
@@ -29,8 +70,8 @@ const FONTS = [
   { name: 'Amatic SC', value: '"Amatic SC", cursive' },
 ];
 
-const WORD_PAUSE_MS = 600; // Time to wait before starting a new word position
-const DEFAULT_DROP_Y = 100; // Default Vertical start position
+const TILT_STEP = 5; // Degrees of gravity tilt per arrow key press
+const SPIN_INTERVAL_MS = 50; // How often the rotating world updates its gravity angle
 
 const FALLING_POEM = `To fall is not to fail, but to yield. 
 We start as rigid things, holding our breath, gripping the ledge of certainty. 
@@ -54,6 +95,8 @@ function App() {
   const [seedColor, setSeedColor] = useState<string>('#ef4444'); // Default Ruby Red
   const [schemeMode, setSchemeMode] = useState<SchemeMode>('analogic-complement');
   const [paletteColors, setPaletteColors] = useState<string[]>(['#ef4444']);
+  // Set when a restored scene brings its own palette, so the API doesn't overwrite it
+  const skipPaletteFetchRef = useRef(false);
   
   // Font State
   const [currentFont, setCurrentFont] = useState<string>(FONTS[0].value);
@@ -68,6 +111,19 @@ function App() {
   const [wpm, setWpm] = useState(50);
   const [maxParticles, setMaxParticles] = useState(300);
   const [autoText, setAutoText] = useState(FALLING_POEM);
+  // Reassemble mode holds the typed text in mid-air; the reveal turns it on as a performance ends
+  const [isReassembling, setIsReassembling] = useState(false);
+  const [revealOnFinish, setRevealOnFinish] = useState(false);
+  // Perform Mode takes can be recorded straight to video, along with the sound
+  const [recording, setRecording] = useState<RecordingSettings>(DEFAULT_RECORDING);
+  const recorderRef = useRef<{ recorder: TakeRecorder, tap: MediaStreamAudioDestinationNode } | null>(null);
+  // Offline export renders the same take frame by frame; progress is null while idle
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT);
+  const [exportProgress, setExportProgress] = useState<OfflineProgress | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  // Stills of the world as it stands, at print size
+  const [poster, setPoster] = useState<PosterSettings>(DEFAULT_POSTER);
+  const [isCapturingPoster, setIsCapturingPoster] = useState(false);
   const [clickIndicator, setClickIndicator] = useState<{x: number, y: number, id: number} | null>(null);
   
   // View settings
@@ -80,18 +136,41 @@ function App() {
   const [isMuted, setIsMuted] = useState(false);
   const audioServiceRef = useRef<AudioService>(new AudioService());
 
+  // Obstacle editing (null = normal typing and dragging)
+  const [editTool, setEditTool] = useState<EditTool>(null);
+  const [forceFields, setForceFields] = useState<ForceField[]>([]);
+
+  // Saved scenes gallery (persisted in localStorage)
+  const [savedScenes, setSavedScenes] = useState<SavedScene[]>(() => loadGallery());
+  // Named letter looks (persisted in localStorage)
+  const [savedLooks, setSavedLooks] = useState<SavedLook[]>(() => loadLooks());
+
   const physicsRef = useRef<PhysicsWorldHandle>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   
-  // Typewriter state
-  const lastTypeTimeRef = useRef<number>(0);
-  const cursorXRef = useRef<number>(0);
-  const cursorYRef = useRef<number>(DEFAULT_DROP_Y);
-  const cursorAnchorRef = useRef<{x: number, y: number} | null>(null);
+  // Headless physics world (drawn by PhysicsWorld) and the typing cursor that feeds it
+  const [simulation, setSimulation] = useState<Simulation>(() => new SimulationService({
+    width: window.innerWidth,
+    height: window.innerHeight,
+    config: INITIAL_CONFIG,
+    fontFamily: FONTS[0].value,
+  }));
+  const [typewriter] = useState(() => new TypewriterService(simulation));
+  // Drops a half-typed word once the typist pauses (whole-word mode)
+  const wordFlushTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
   // Auto-type refs
   const autoTypeIndexRef = useRef(0);
   const autoTypeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Fixed-step scheduling: simulation time of the next character, and the per-step hook
+  const nextTypeAtRef = useRef<number | null>(null);
+  const stepListenerRef = useRef<((time: number) => void) | null>(null);
+
+  // Seeded randomness: one generator from config.seed, forked per consumer
+  // Master generator, kept so a simulation created later can fork its stream too
+  const masterRandomRef = useRef(new SeededRandom(INITIAL_CONFIG.seed));
+  const typingRandomRef = useRef(masterRandomRef.current.fork('typing'));
+  const fixedStepRef = useRef(config.fixedStep);
 
   // Focus the hidden input on load for immediate typing
   useEffect(() => {
@@ -109,6 +188,10 @@ function App() {
 
   // Fetch Color Scheme when Seed or Mode changes
   useEffect(() => {
+    if (skipPaletteFetchRef.current) {
+        skipPaletteFetchRef.current = false;
+        return;
+    }
     // Debounce API calls to avoid rate limits
     const timer = setTimeout(async () => {
         const colors = await fetchColorScheme(seedColor, schemeMode);
@@ -117,6 +200,26 @@ function App() {
     return () => clearTimeout(timer);
   }, [seedColor, schemeMode]);
 
+  useEffect(() => {
+    fixedStepRef.current = config.fixedStep;
+  }, [config.fixedStep]);
+
+  useEffect(() => {
+    reseedRandom(config.seed);
+  }, [config.seed]);
+
+  // Rotating world: slowly turn gravity while spin is set
+  useEffect(() => {
+    if (config.gravitySpin === 0) return;
+    const interval = setInterval(() => {
+        setConfig(prev => ({
+            ...prev,
+            gravityAngle: normalizeAngle(prev.gravityAngle + prev.gravitySpin * SPIN_INTERVAL_MS / 1000)
+        }));
+    }, SPIN_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [config.gravitySpin]);
+
   // Remove click indicator after animation
   useEffect(() => {
     if (clickIndicator) {
@@ -153,38 +256,64 @@ function App() {
     return paletteColors[colorIndexRef.current % paletteColors.length];
   }, [paletteColors, seedColor]);
 
-  // Helper to position cursor for next word
-  const resetCursorForNewWord = () => {
-      // Cycle color for new word
-      colorIndexRef.current += 1;
-      
-      // Change musical scale for new word
-      audioServiceRef.current.changeScale();
+  // Hook the typewriter up to the palette, the letter cap and the typing sounds
+  useEffect(() => {
+    typewriter.getColor = getCurrentColor;
+  }, [typewriter, getCurrentColor]);
 
-      if (cursorAnchorRef.current) {
-          cursorXRef.current = cursorAnchorRef.current.x;
-          cursorYRef.current = cursorAnchorRef.current.y;
-      } else {
-          // Default random behavior if no click set
-          const width = window.innerWidth;
-          const minX = width * 0.1;
-          const maxX = width * 0.7; 
-          cursorXRef.current = minX + Math.random() * (maxX - minX);
-          cursorYRef.current = DEFAULT_DROP_Y;
-      }
+  useEffect(() => {
+    typewriter.maxLetters = maxParticles;
+  }, [typewriter, maxParticles]);
+
+  // Also carries reassemble mode over to a simulation just moved to or from a worker
+  useEffect(() => {
+    simulation.setReassembling(isReassembling);
+  }, [simulation, isReassembling]);
+
+  useEffect(() => {
+    typewriter.onNewWord = () => {
+        // Cycle color and musical scale for each new word
+        colorIndexRef.current += 1;
+        audioServiceRef.current.changeScale();
+    };
+    typewriter.onType = (char) => audioServiceRef.current.playTypingSound(getMaterial(char, typewriter.simulation.config.materials)?.sound);
+  }, [typewriter]);
+
+  // Restart every random stream from the seed, so what follows replays identically
+  const reseedRandom = (seed: number) => {
+      const master = new SeededRandom(seed);
+      masterRandomRef.current = master;
+      typewriter.setRandom(master);
+      typingRandomRef.current = master.fork('typing');
+      audioServiceRef.current.setRandom(master);
+      simulation.setRandom(master);
+  };
+
+  // Typing clock: the simulation clock in fixed-step mode, wall time otherwise. Read through
+  // the typewriter, which always holds the live simulation; memoized handlers would otherwise
+  // keep reading one destroyed by the worker toggle.
+  const getNow = () => fixedStepRef.current ? typewriter.simulation.time : Date.now();
+
+  // Manual typing has no closing space after the last word, so drop it once the typist pauses
+  const scheduleWordFlush = () => {
+      if (wordFlushTimeoutRef.current) clearTimeout(wordFlushTimeoutRef.current);
+      if (!typewriter.hasPendingWord) return;
+      wordFlushTimeoutRef.current = setTimeout(() => typewriter.flushWord(), WORD_PAUSE_MS);
   };
 
   const performClear = (resetAnchor: boolean) => {
-    physicsRef.current?.clearWorld();
+    typewriter.discardWord();
+    simulation.clearLetters();
+    setIsReassembling(false);
     autoTypeIndexRef.current = 0;
+    reseedRandom(config.seed);
     
     if (resetAnchor) {
         // Reset anchor on clear to return to random distribution
-        cursorAnchorRef.current = null;
-        cursorYRef.current = DEFAULT_DROP_Y;
+        typewriter.setAnchor(null, getNow());
     }
     
-    resetCursorForNewWord();
+    typewriter.startWord();
     
     // Refocus input
     inputRef.current?.focus();
@@ -194,9 +323,40 @@ function App() {
     performClear(true);
   };
   
+  const startRecording = () => {
+      try {
+          const tap = audioServiceRef.current.createRecordingTap();
+          const recorder = new TakeRecorder(() => physicsRef.current?.getLayers() ?? [], tap.stream, recording);
+          recorder.start();
+          recorderRef.current = { recorder, tap };
+      } catch (e) {
+          console.error("Failed to start recording:", e);
+      }
+  };
+
+  // Ends the take's recording, downloading it when `keep` is set
+  const stopRecording = async (keep: boolean) => {
+      const active = recorderRef.current;
+      if (!active) return;
+      recorderRef.current = null;
+      if (keep) {
+          const video = await active.recorder.stop();
+          downloadRecording(video, `wordfall-take-${new Date().toISOString()}`);
+      } else {
+          active.recorder.cancel();
+      }
+      audioServiceRef.current.removeRecordingTap(active.tap);
+  };
+
+  // Leaving Perform Mode early throws the recording away
+  useEffect(() => {
+    if (!isPerformMode) stopRecording(false);
+  }, [isPerformMode]);
+
   const handleStartPerformance = () => {
       // 1. Stop everything
       setIsAutoTyping(false);
+      stopRecording(false);
       
       // 2. Clear canvas and sound
       // Pass false to keep the anchor point so performance plays at selected spot
@@ -220,10 +380,42 @@ function App() {
               // 5. Start Single-Pass Auto Type
               setIsAutoTyping(true);
               audioServiceRef.current.init(); // Ensure audio is ready
+              if (recording.enabled) startRecording();
           }
       }, 1000);
   };
 
+  // Renders the Perform Mode take offline at the export settings, from the live settings and scenery
+  const handleExportTake = async () => {
+      if (exportAbortRef.current) return;
+      const controller = new AbortController();
+      exportAbortRef.current = controller;
+      setExportProgress({ stage: 'frames', frames: 0, seconds: 0 });
+      try {
+          await renderTake({
+              text: autoText,
+              wpm,
+              revealOnFinish,
+              config,
+              fontFamily: currentFont,
+              width: simulation.width,
+              height: simulation.height,
+              obstacles: simulation.getObstacles(),
+              forceFields,
+              colors: paletteColors.length > 0 ? paletteColors : [seedColor],
+              anchor: typewriter.anchor,
+              maxLetters: maxParticles,
+              withAudio: !isMuted,
+          }, exportSettings, setExportProgress, controller.signal);
+      } catch (e) {
+          // Cancelling, or dismissing the folder picker, isn't a failure
+          if ((e as Error).name !== 'AbortError') console.error("Failed to export take:", e);
+      } finally {
+          exportAbortRef.current = null;
+          setExportProgress(null);
+      }
+  };
+
   const handleRegeneratePoem = async () => {
     setIsGenerating(true);
     try {
@@ -290,26 +482,147 @@ function App() {
     const target = e.target as HTMLElement;
     if (target.closest('button') || target.closest('input') || target.closest('.settings-panel')) return;
 
+    // While editing obstacles, clicks belong to the drawing tools, not the typing origin
+    if (editTool) return;
+
     audioServiceRef.current.init(); // Initialize audio on first interaction
 
     const x = e.clientX;
     const y = e.clientY;
     
-    cursorAnchorRef.current = { x, y };
-    cursorXRef.current = x;
-    cursorYRef.current = y;
+    // Also resets the typing timer, so the next char lands right here
+    typewriter.setAnchor({ x, y }, getNow());
     
     setClickIndicator({ x, y, id: Date.now() });
     
     // Keep focus for typing
     inputRef.current?.focus();
-    
-    // Reset timer to treat next char as immediate
-    lastTypeTimeRef.current = Date.now();
   };
 
-  const handleCollision = useCallback(() => {
-    audioServiceRef.current.playCollisionSound();
+  const handleAddForceField = (kind: ForceFieldKind) => {
+    setForceFields(fields => [...fields, createForceField(kind, window.innerWidth / 2, window.innerHeight / 2)]);
+    // Show the handles so the new field can be placed right away
+    setEditTool('fields');
+  };
+
+  // Async because a worker simulation answers by message
+  const buildSnapshot = async (): Promise<SceneSnapshot> => {
+    return {
+        version: SNAPSHOT_VERSION,
+        ...(await simulation.captureScene()),
+        forceFields,
+        config,
+        font: currentFont,
+        palette: { seedColor, schemeMode, colors: paletteColors },
+    };
+  };
+
+  const applySnapshot = (saved: SceneSnapshot) => {
+    // Scenes saved before a setting existed pick up its default
+    const snapshot = { ...saved, config: { ...INITIAL_CONFIG, ...saved.config } };
+    physicsRef.current?.restoreScene(snapshot);
+    setConfig(snapshot.config);
+    setCurrentFont(snapshot.font);
+    setForceFields(snapshot.forceFields);
+
+    if (snapshot.palette.seedColor !== seedColor || snapshot.palette.schemeMode !== schemeMode) {
+        skipPaletteFetchRef.current = true;
+    }
+    setSeedColor(snapshot.palette.seedColor);
+    setSchemeMode(snapshot.palette.schemeMode);
+    setPaletteColors(snapshot.palette.colors);
+  };
+
+  // Move the physics to or from a worker when the option changes, carrying the scene over
+  useEffect(() => {
+    if ((simulation instanceof WorkerSimulation) === config.workerPhysics) return;
+
+    let cancelled = false;
+    buildSnapshot().then(snapshot => {
+        if (cancelled) return;
+        const options = { width: simulation.width, height: simulation.height, config, fontFamily: currentFont };
+        const next = config.workerPhysics ? new WorkerSimulation(options) : new SimulationService(options);
+        next.setRandom(masterRandomRef.current);
+        next.restoreScene(snapshot);
+        typewriter.simulation = next;
+        simulation.destroy();
+        setSimulation(next);
+    });
+    return () => {
+        cancelled = true;
+    };
+  }, [config.workerPhysics]);
+
+  const updateGallery = (scenes: SavedScene[]) => {
+    try {
+        saveGallery(scenes);
+        setSavedScenes(scenes);
+    } catch (e) {
+        console.error("Failed to update scene gallery:", e);
+    }
+  };
+
+  const handleSaveScene = async (name: string) => {
+    const snapshot = await buildSnapshot();
+    updateGallery([createSavedScene(name || `Scene ${savedScenes.length + 1}`, snapshot), ...savedScenes]);
+  };
+
+  const handleLoadScene = (id: string) => {
+    const scene = savedScenes.find(s => s.id === id);
+    if (scene) applySnapshot(scene.snapshot);
+  };
+
+  const handleDeleteScene = (id: string) => {
+    updateGallery(savedScenes.filter(s => s.id !== id));
+  };
+
+  // Exports a saved scene, or the live world when no id is given
+  const handleExportScene = async (id?: string) => {
+    const scene = id ? savedScenes.find(s => s.id === id) : null;
+    const snapshot = scene ? scene.snapshot : await buildSnapshot();
+    downloadSnapshot(snapshot, scene ? scene.name : 'wordfall-scene');
+  };
+
+  const handleImportScene = async (file: File) => {
+    try {
+        const snapshot = parseSnapshot(await file.text());
+        applySnapshot(snapshot);
+        updateGallery([createSavedScene(file.name.replace(/\.json$/i, ''), snapshot), ...savedScenes]);
+    } catch (e) {
+        console.error("Failed to import scene:", e);
+    }
+  };
+
+  const handleCapturePoster = async () => {
+    setIsCapturingPoster(true);
+    try {
+        await capturePoster(simulation, poster);
+    } catch (e) {
+        console.error("Failed to capture poster:", e);
+    } finally {
+        setIsCapturingPoster(false);
+    }
+  };
+
+  const updateLooks = (looks: SavedLook[]) => {
+    try {
+        saveLooks(looks);
+        setSavedLooks(looks);
+    } catch (e) {
+        console.error("Failed to update saved looks:", e);
+    }
+  };
+
+  const handleSaveLook = (name: string) => {
+    updateLooks([createSavedLook(name || `Look ${savedLooks.length + 1}`, config.look), ...savedLooks]);
+  };
+
+  const handleDeleteLook = (id: string) => {
+    updateLooks(savedLooks.filter(look => look.id !== id));
+  };
+
+  const handleCollision = useCallback((impact: CollisionEvent) => {
+    audioServiceRef.current.playCollisionSound(impact.a.sound, Math.min(1, impact.speed / IMPACT_FULL_VOLUME_SPEED));
   }, []);
 
   // Auto-Type Effect Loop
@@ -318,86 +631,117 @@ function App() {
         if (autoTypeTimeoutRef.current) {
             clearTimeout(autoTypeTimeoutRef.current);
         }
+        nextTypeAtRef.current = null;
+        // Don't leave a half-typed word hanging when the typist stops
+        typewriter.flushWord();
         return;
     }
 
-    const typeNextChar = () => {
-        const text = autoText;
-        
+    // The poem in grapheme clusters, so an emoji or accented letter is typed as one
+    const text = splitGraphemes(autoText);
+
+    // Types one character and returns the delay before the next, or null when the take is over
+    const typeNextChar = (): number | null => {
         // --- Perform Mode Logic: Stop at end ---
         if (isPerformMode && autoTypeIndexRef.current >= text.length) {
+            typewriter.flushWord();
+
+            // The reveal lets the last letters land, then pulls the poem back together
+            if (revealOnFinish) {
+                if (autoTypeIndexRef.current === text.length) {
+                    autoTypeIndexRef.current += 1;
+                    return REVEAL_DELAY_MS;
+                }
+                setIsReassembling(true);
+            }
             setIsAutoTyping(false);
             
             // Wait 5 seconds before showing UI again to allow for clean recording tail
             setTimeout(() => {
+                stopRecording(true);
                 setIsPerformMode(false);
                 setIsUiVisible(true);
-            }, 5000);
+            }, PERFORM_TAIL_MS);
             
-            return; 
+            return null; 
         }
         // ---------------------------------------
         
-        const width = window.innerWidth;
         const char = text[autoTypeIndexRef.current % text.length];
         
-        // Dynamic spacing: Ensure visually legible (at least 1x) but respect wider bodies if spacing > 1
-        const charSpacing = config.fontSize * 0.7 * Math.max(1, config.spacing);
+        // The take always opens with a fresh word
+        if (autoTypeIndexRef.current === 0) typewriter.newLine();
 
-        let delay = 60000 / (wpm * 6);
-        delay = delay * (0.8 + Math.random() * 0.4);
+        // Spaces and newlines send the cursor back to the start position (anchor or random),
+        // so each new word starts from the origin point. Wrapping takes a breath first.
+        const wrapped = typewriter.type(char, getNow(), true);
 
-        if (char === ' ' || char === '.' || char === ',') {
-            delay *= 2;
-        }
-        
-        // Line break / New word logic (timeout based)
-        if (autoTypeIndexRef.current === 0 || (Date.now() - lastTypeTimeRef.current > WORD_PAUSE_MS)) {
-             resetCursorForNewWord();
-        }
+        autoTypeIndexRef.current = autoTypeIndexRef.current + 1;
 
-        // Check wrapping
-        if (cursorXRef.current > width * 0.9) {
-            resetCursorForNewWord();
-            delay += 400;
-        }
+        return getAutoTypeDelay(char, wpm, typingRandomRef.current, wrapped);
+    };
+
+    if (config.fixedStep) {
+        // Schedule on the simulation clock so each character lands on the same engine step every take
+        stepListenerRef.current = (time: number) => {
+            if (nextTypeAtRef.current === null) nextTypeAtRef.current = time;
+            if (time < nextTypeAtRef.current) return;
 
-        if (physicsRef.current) {
-            if (char !== ' ' && char !== '\n' && char !== '\r') {
-                physicsRef.current.addText(char, cursorXRef.current, cursorYRef.current, getCurrentColor());
-                physicsRef.current.pruneBodies(maxParticles);
-                audioServiceRef.current.playTypingSound();
-                // Only advance cursor after placing a letter
-                cursorXRef.current += charSpacing;
+            const delay = typeNextChar();
+            if (delay === null) {
+                stepListenerRef.current = null;
+                nextTypeAtRef.current = null;
             } else {
-                // If it's a space or newline, we reset the cursor to the start position (anchor or random)
-                // This ensures each new word starts from the origin point.
-                resetCursorForNewWord();
+                nextTypeAtRef.current = time + delay;
             }
-        }
+        };
 
-        lastTypeTimeRef.current = Date.now();
-        autoTypeIndexRef.current = autoTypeIndexRef.current + 1;
+        return () => {
+            stepListenerRef.current = null;
+        };
+    }
 
-        autoTypeTimeoutRef.current = setTimeout(typeNextChar, delay);
+    const tick = () => {
+        const delay = typeNextChar();
+        if (delay !== null) autoTypeTimeoutRef.current = setTimeout(tick, delay);
     };
 
-    typeNextChar();
+    tick();
 
     return () => {
         if (autoTypeTimeoutRef.current) {
             clearTimeout(autoTypeTimeoutRef.current);
         }
     };
-  }, [isAutoTyping, wpm, maxParticles, autoText, getCurrentColor, config.fontSize, config.spacing, isPerformMode]);
+  }, [isAutoTyping, wpm, autoText, config.fixedStep, isPerformMode, revealOnFinish]);
+
+  const handleStep = useCallback((time: number) => {
+    stepListenerRef.current?.(time);
+  }, []);
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    // Keys typed into a form field belong to the field: a select's arrows pick an option
+    // rather than tilt the world. The hidden typing input still counts as the page.
     const target = e.target as HTMLElement;
-    if (target.tagName === 'INPUT' && target.id !== 'hidden-type-input') return;
+    const isField = ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable;
+    if (isField && target.id !== 'hidden-type-input') return;
     
     // Prevent double-typing: If we are focused on the hidden input, 
     // let the onChange event handle single characters.
-    if (target.id === 'hidden-type-input' && e.key.length === 1) return;
+    if (target.id === 'hidden-type-input' && isCharacterKey(e.key)) return;
+
+    // Arrow keys tilt the world: left/right lean gravity, down straightens it again
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+        e.preventDefault();
+        const step = e.key === 'ArrowLeft' ? -TILT_STEP : TILT_STEP;
+        setConfig(prev => ({ ...prev, gravityAngle: normalizeAngle(prev.gravityAngle + step) }));
+        return;
+    }
+    if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setConfig(prev => ({ ...prev, gravityAngle: 0 }));
+        return;
+    }
     
     // Init audio on key press
     audioServiceRef.current.init();
@@ -408,39 +752,16 @@ function App() {
         setIsUiVisible(true);
     }
 
-    const now = Date.now();
-    const width = window.innerWidth;
-    
-    // Dynamic spacing: Ensure visually legible (at least 1x) but respect wider bodies if spacing > 1
-    const charSpacing = config.fontSize * 0.7 * Math.max(1, config.spacing);
-
     if (e.key === 'Enter') {
-        lastTypeTimeRef.current = 0; 
+        typewriter.newLine();
         return;
     }
 
-    if (now - lastTypeTimeRef.current > WORD_PAUSE_MS) {
-        resetCursorForNewWord();
-    }
-
-    if (cursorXRef.current > width * 0.9) {
-         resetCursorForNewWord();
-    }
-
-    if (physicsRef.current) {
-         if (e.key.length === 1) {
-            if (e.key === ' ') {
-                 cursorXRef.current += charSpacing;
-            } else {
-                 physicsRef.current.addText(e.key, cursorXRef.current, cursorYRef.current, getCurrentColor());
-                 physicsRef.current.pruneBodies(maxParticles);
-                 audioServiceRef.current.playTypingSound();
-                 cursorXRef.current += charSpacing;
-            }
-            lastTypeTimeRef.current = now;
-         }
+    if (isCharacterKey(e.key)) {
+        typewriter.type(e.key, getNow());
+        scheduleWordFlush();
     }
-  }, [maxParticles, getCurrentColor, config.fontSize, config.spacing, isPerformMode]); 
+  }, [isPerformMode]); 
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
@@ -451,28 +772,10 @@ function App() {
     audioServiceRef.current.init();
     const val = e.target.value;
     if (val.length > 0) {
-        const char = val.slice(-1);
-        const now = Date.now();
-        const width = window.innerWidth;
-        
-        // Dynamic spacing: Ensure visually legible (at least 1x) but respect wider bodies if spacing > 1
-        const charSpacing = config.fontSize * 0.7 * Math.max(1, config.spacing);
-        
-        if (now - lastTypeTimeRef.current > WORD_PAUSE_MS) {
-             resetCursorForNewWord();
-        }
-        
-        if (cursorXRef.current > width * 0.9) resetCursorForNewWord();
-
-        if (char === ' ') {
-            cursorXRef.current += charSpacing;
-        } else {
-            physicsRef.current?.addText(char, cursorXRef.current, cursorYRef.current, getCurrentColor());
-            physicsRef.current?.pruneBodies(maxParticles);
-            audioServiceRef.current.playTypingSound();
-            cursorXRef.current += charSpacing;
-        }
-        lastTypeTimeRef.current = now;
+        // Emoji pickers and pastes can bring several clusters at once
+        const now = getNow();
+        splitGraphemes(val).forEach(char => typewriter.type(char, now));
+        scheduleWordFlush();
         e.target.value = '';
     }
   };
@@ -489,9 +792,14 @@ function App() {
     >
       <PhysicsWorld 
         ref={physicsRef} 
+        simulation={simulation}
         config={config} 
         fontFamily={currentFont}
         onCollision={handleCollision} 
+        editTool={editTool}
+        forceFields={forceFields}
+        onForceFieldsChange={setForceFields}
+        onStep={handleStep}
       />
 
       <div className={`absolute top-6 left-6 pointer-events-none select-none z-10 transition-opacity duration-500 ${uiOpacityClass}`}>
@@ -515,6 +823,17 @@ function App() {
             onWpmChange={setWpm}
             maxParticles={maxParticles}
             onMaxParticlesChange={setMaxParticles}
+            isReassembling={isReassembling}
+            onToggleReassemble={() => setIsReassembling(prev => !prev)}
+            revealOnFinish={revealOnFinish}
+            onRevealOnFinishChange={setRevealOnFinish}
+            recording={recording}
+            onRecordingChange={setRecording}
+            exportSettings={exportSettings}
+            onExportSettingsChange={setExportSettings}
+            exportProgress={exportProgress}
+            onExportTake={handleExportTake}
+            onCancelExport={() => exportAbortRef.current?.abort()}
             // Palette Props
             seedColor={seedColor}
             onSeedColorChange={setSeedColor}
@@ -536,6 +855,30 @@ function App() {
             // Audio Props
             isMuted={isMuted}
             onToggleMute={toggleMute}
+            // Obstacle Props
+            editTool={editTool}
+            onEditToolChange={setEditTool}
+            onClearObstacles={() => physicsRef.current?.clearObstacles()}
+            // Force Field Props
+            forceFields={forceFields}
+            onForceFieldsChange={setForceFields}
+            onAddForceField={handleAddForceField}
+            // Scene Props
+            savedScenes={savedScenes}
+            onSaveScene={handleSaveScene}
+            onLoadScene={handleLoadScene}
+            onDeleteScene={handleDeleteScene}
+            onExportScene={handleExportScene}
+            onImportScene={handleImportScene}
+            // Poster Props
+            poster={poster}
+            onPosterChange={setPoster}
+            isCapturingPoster={isCapturingPoster}
+            onCapturePoster={handleCapturePoster}
+            // Look Props
+            savedLooks={savedLooks}
+            onSaveLook={handleSaveLook}
+            onDeleteLook={handleDeleteLook}
           />
       </div>
 
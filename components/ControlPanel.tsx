@@ -1,7 +1,54 @@
 
-import React, { useState } from 'react';
-import { PhysicsConfig, SchemeMode } from '../types';
-import { Settings2, Trash2, Play, Pause, Palette, RefreshCw, Maximize2, Minimize2, Eye, EyeOff, Type, MoveHorizontal, Volume2, VolumeX, Clapperboard } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { BodyShape, BoundaryConfig, EditTool, ExportFormat, ExportSettings, ForceField, ForceFieldKind, LookStyle, Material, MaterialMatch, PhysicsConfig, PosterFormat, PosterSettings, RecordingSettings, RendererKind, SavedLook, SavedScene, SchemeMode, SoundProfile, WallType } from '../types';
+import { FORCE_FIELD_COLORS } from '../services/forceFieldService';
+import { createMaterial, MATERIAL_MATCH_LABELS, PRESET_MATERIALS, SOUND_PROFILES } from '../services/materialService';
+import { MAX_JELLY_LETTERS } from '../services/jellyService';
+import { CONTAINER_PRESETS, ContainerPreset, createPresetContainer, createTextContainer, parseSvgContainer } from '../services/containerService';
+import { randomSeed } from '../services/randomService';
+import { RENDERER_LABELS } from '../services/rendererService';
+import { createLook, LOOK_STYLES, PRESET_LOOKS } from '../services/lookService';
+import { isRecordingSupported, RECORDING_FRAME_RATES, RECORDING_HEIGHTS } from '../services/recordingService';
+import { EXPORT_HEIGHTS, isFrameExportSupported, isVideoExportSupported, OfflineProgress } from '../services/offlineRenderService';
+import { DEFAULT_POSTER, MAX_POSTER_WIDTH, POSTER_DPIS } from '../services/posterService';
+import GravityDial from './GravityDial';
+import { Settings2, Trash2, Play, Pause, Palette, RefreshCw, Maximize2, Minimize2, Eye, EyeOff, Type, MoveHorizontal, Volume2, VolumeX, Clapperboard, Square, PenLine, Slash, Waypoints, Circle, MousePointer2, Eraser, Wind, Magnet, Expand, Tornado, X, Dices, Save, Download, Upload, Images, Weight, Plus, Rewind, Sparkles, ImageDown } from 'lucide-react';
+
+// Letter cap on the main thread, and with the physics moved to a worker
+const MAX_LETTERS = 800;
+const MAX_WORKER_LETTERS = 5000;
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string; isSupported: () => boolean }[] = [
+    { format: 'webm', label: 'WebM Video', isSupported: isVideoExportSupported },
+    { format: 'png', label: 'PNG Frames', isSupported: isFrameExportSupported },
+];
+
+const POSTER_FORMATS: { format: PosterFormat; label: string }[] = [
+    { format: 'png', label: 'PNG' },
+    { format: 'svg', label: 'SVG (Vector)' },
+];
+
+const BOUNDARY_LABELS: { type: WallType; label: string }[] = [
+    { type: WallType.FLOOR, label: 'Floor' },
+    { type: WallType.WALL_LEFT, label: 'Left Wall' },
+    { type: WallType.WALL_RIGHT, label: 'Right Wall' },
+    { type: WallType.CEILING, label: 'Ceiling' },
+];
+
+const EDIT_TOOLS: { tool: Exclude<EditTool, null>; label: string; icon: React.ReactNode }[] = [
+    { tool: 'line', label: 'Line', icon: <Slash size={16} /> },
+    { tool: 'polyline', label: 'Polyline (double-click or Enter to finish)', icon: <Waypoints size={16} /> },
+    { tool: 'circle', label: 'Circle', icon: <Circle size={16} /> },
+    { tool: 'select', label: 'Select (Delete to remove)', icon: <MousePointer2 size={16} /> },
+    { tool: 'fields', label: 'Move & Resize Force Fields', icon: <Wind size={16} /> },
+];
+
+const FORCE_FIELD_KINDS: { kind: ForceFieldKind; label: string; icon: React.ReactNode }[] = [
+    { kind: 'wind', label: 'Wind', icon: <Wind size={14} /> },
+    { kind: 'attractor', label: 'Attract', icon: <Magnet size={14} /> },
+    { kind: 'repeller', label: 'Repel', icon: <Expand size={14} /> },
+    { kind: 'vortex', label: 'Vortex', icon: <Tornado size={14} /> },
+];
 
 interface FontOption {
     name: string;
@@ -19,6 +66,17 @@ interface ControlPanelProps {
   onWpmChange: (val: number) => void;
   maxParticles: number;
   onMaxParticlesChange: (val: number) => void;
+  isReassembling: boolean;
+  onToggleReassemble: () => void;
+  revealOnFinish: boolean;
+  onRevealOnFinishChange: (val: boolean) => void;
+  recording: RecordingSettings;
+  onRecordingChange: (settings: RecordingSettings) => void;
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (settings: ExportSettings) => void;
+  exportProgress: OfflineProgress | null;
+  onExportTake: () => void;
+  onCancelExport: () => void;
   
   // Color Scheme Props
   seedColor: string;
@@ -46,6 +104,35 @@ interface ControlPanelProps {
   // Audio Props
   isMuted: boolean;
   onToggleMute: () => void;
+
+  // Obstacle Props
+  editTool: EditTool;
+  onEditToolChange: (tool: EditTool) => void;
+  onClearObstacles: () => void;
+
+  // Force Field Props
+  forceFields: ForceField[];
+  onForceFieldsChange: (fields: ForceField[]) => void;
+  onAddForceField: (kind: ForceFieldKind) => void;
+
+  // Scene Props
+  savedScenes: SavedScene[];
+  onSaveScene: (name: string) => void;
+  onLoadScene: (id: string) => void;
+  onDeleteScene: (id: string) => void;
+  onExportScene: (id?: string) => void;
+  onImportScene: (file: File) => void;
+
+  // Look Props
+  savedLooks: SavedLook[];
+  onSaveLook: (name: string) => void;
+  onDeleteLook: (id: string) => void;
+
+  // Poster Props
+  poster: PosterSettings;
+  onPosterChange: (settings: PosterSettings) => void;
+  isCapturingPoster: boolean;
+  onCapturePoster: () => void;
 }
 
 const ControlPanel: React.FC<ControlPanelProps> = ({ 
@@ -59,6 +146,17 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     onWpmChange,
     maxParticles,
     onMaxParticlesChange,
+    isReassembling,
+    onToggleReassemble,
+    revealOnFinish,
+    onRevealOnFinishChange,
+    recording,
+    onRecordingChange,
+    exportSettings,
+    onExportSettingsChange,
+    exportProgress,
+    onExportTake,
+    onCancelExport,
     seedColor,
     onSeedColorChange,
     schemeMode,
@@ -74,14 +172,74 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     isZenMode,
     onToggleZenMode,
     isMuted,
-    onToggleMute
+    onToggleMute,
+    editTool,
+    onEditToolChange,
+    onClearObstacles,
+    forceFields,
+    onForceFieldsChange,
+    onAddForceField,
+    savedScenes,
+    onSaveScene,
+    onLoadScene,
+    onDeleteScene,
+    onExportScene,
+    onImportScene,
+    savedLooks,
+    onSaveLook,
+    onDeleteLook,
+    poster,
+    onPosterChange,
+    isCapturingPoster,
+    onCapturePoster
 }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [sceneName, setSceneName] = useState('');
+  const [lookName, setLookName] = useState('');
+  const [newMaterialMatch, setNewMaterialMatch] = useState<MaterialMatch>('uppercase');
+  const [containerTitle, setContainerTitle] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const containerInputRef = useRef<HTMLInputElement>(null);
 
   const handleRangeChange = (key: keyof PhysicsConfig, value: number) => {
     onConfigChange({ ...config, [key]: value });
   };
 
+  const handleForceFieldChange = (id: string, patch: Partial<ForceField>) => {
+    onForceFieldsChange(forceFields.map(field => field.id === id ? { ...field, ...patch } : field));
+  };
+
+  const handleMaterialChange = (id: string, patch: Partial<Material>) => {
+    onConfigChange({ ...config, materials: config.materials.map(material => material.id === id ? { ...material, ...patch } : material) });
+  };
+
+  // Adds the presets that aren't in the table yet
+  const handleAddPresetMaterials = () => {
+    const missing = PRESET_MATERIALS.filter(preset => !config.materials.some(material => material.id === preset.id));
+    onConfigChange({ ...config, materials: [...config.materials, ...missing] });
+  };
+
+  const handleBoundaryChange = (type: WallType, patch: Partial<BoundaryConfig>) => {
+    onConfigChange({
+      ...config,
+      boundaries: { ...config.boundaries, [type]: { ...config.boundaries[type], ...patch } },
+    });
+  };
+
+  const handleLoadContainer = async (file: File) => {
+    try {
+        const container = parseSvgContainer(await file.text(), file.name.replace(/\.svg$/i, ''));
+        onConfigChange({ ...config, container });
+    } catch (e) {
+        console.error("Failed to load container:", e);
+    }
+  };
+
+  const handleOutlineTitle = () => {
+    const container = createTextContainer(containerTitle.trim(), currentFont);
+    if (container) onConfigChange({ ...config, container });
+  };
+
   return (
     <div className="fixed top-4 right-4 z-50 flex flex-col items-end gap-2 pointer-events-none control-panel-container">
       {/* Floating Action Buttons */}
@@ -136,6 +294,26 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             {isAutoTyping ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" />}
         </button>
 
+        <button 
+            onClick={onToggleReassemble}
+            className={`p-3 rounded-full shadow-lg transition-all border border-stone-200 ${
+                isReassembling ? 'bg-amber-100 text-amber-700 border-amber-300' : 'bg-white/80 backdrop-blur-sm text-stone-700 hover:bg-white'
+            }`}
+            title={isReassembling ? "Release Text" : "Reassemble Text"}
+        >
+            <Rewind size={20} />
+        </button>
+
+        <button 
+            onClick={() => onEditToolChange(editTool ? null : 'line')}
+            className={`p-3 rounded-full shadow-lg transition-all border border-stone-200 ${
+                editTool ? 'bg-stone-800 text-white' : 'bg-white/80 backdrop-blur-sm text-stone-700 hover:bg-white'
+            }`}
+            title={editTool ? "Done Editing" : "Edit Obstacles & Force Fields"}
+        >
+            <PenLine size={20} />
+        </button>
+
         <button 
             onClick={onClear}
             className="p-3 bg-white/80 backdrop-blur-sm rounded-full shadow-lg hover:bg-red-50 text-stone-700 hover:text-red-600 transition-all border border-stone-200"
@@ -155,6 +333,32 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         </button>
       </div>
 
+      {/* Obstacle Tools */}
+      {editTool && (
+        <div className="flex gap-1 p-1 bg-white/90 backdrop-blur-md rounded-full shadow-lg border border-stone-200 pointer-events-auto">
+            {EDIT_TOOLS.map(({ tool, label, icon }) => (
+                <button
+                    key={tool}
+                    onClick={() => onEditToolChange(tool)}
+                    className={`p-2 rounded-full transition-colors ${
+                        editTool === tool ? 'bg-stone-800 text-white' : 'text-stone-600 hover:bg-stone-100'
+                    }`}
+                    title={label}
+                >
+                    {icon}
+                </button>
+            ))}
+            <div className="w-px h-8 bg-stone-300 mx-1 opacity-50" />
+            <button
+                onClick={onClearObstacles}
+                className="p-2 rounded-full text-stone-600 hover:bg-red-50 hover:text-red-600 transition-colors"
+                title="Remove All Obstacles"
+            >
+                <Eraser size={16} />
+            </button>
+        </div>
+      )}
+
       {/* Settings Panel */}
       {isOpen && (
         <div className="settings-panel mt-2 p-6 bg-white/90 backdrop-blur-md rounded-2xl shadow-xl border border-stone-200 w-80 pointer-events-auto animate-in fade-in slide-in-from-top-4 duration-200 max-h-[80vh] overflow-y-auto">
@@ -205,6 +409,62 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     </div>
                 </div>
 
+                <div>
+                    <div className="flex justify-between text-xs text-stone-600 mb-1">
+                        <span>Collision Shape</span>
+                    </div>
+                    <div className="flex rounded-lg border border-stone-200 overflow-hidden">
+                        {(['box', 'glyph', 'jelly'] as BodyShape[]).map((shape) => (
+                            <button
+                                key={shape}
+                                onClick={() => onConfigChange({ ...config, bodyShape: shape })}
+                                className={`flex-1 py-1.5 text-xs font-medium transition-colors ${
+                                    config.bodyShape === shape ? 'bg-stone-800 text-white' : 'bg-white text-stone-600 hover:bg-stone-100'
+                                }`}
+                                title={shape === 'glyph' ? "Letters collide using their real outline" : shape === 'jelly' ? "Letters are squishy and wobble when they land" : "Letters collide as rectangles"}
+                            >
+                                {shape === 'glyph' ? 'Glyph Outline' : shape === 'jelly' ? 'Jelly' : 'Box'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {config.bodyShape === 'jelly' && (
+                    <div className="flex flex-col gap-2">
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                    <span>Stiffness</span>
+                                    <span>{config.jellyStiffness.toFixed(2)}</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="0.02" max="0.5" step="0.01"
+                                    value={config.jellyStiffness}
+                                    onChange={(e) => handleRangeChange('jellyStiffness', parseFloat(e.target.value))}
+                                    className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                                />
+                            </div>
+                            <div>
+                                <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                    <span>Damping</span>
+                                    <span>{config.jellyDamping.toFixed(2)}</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="0" max="0.3" step="0.01"
+                                    value={config.jellyDamping}
+                                    onChange={(e) => handleRangeChange('jellyDamping', parseFloat(e.target.value))}
+                                    className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                                />
+                            </div>
+                        </div>
+                        <p className="text-[10px] text-stone-400">
+                            Only the newest {MAX_JELLY_LETTERS} jelly letters stay squishy; whole words stay rigid.
+                        </p>
+                    </div>
+                )}
+
                 <p className="text-[10px] text-stone-400 text-center" style={{ fontFamily: currentFont.split(',')[0], fontSize: Math.max(12, Math.min(20, config.fontSize / 2)) }}>
                     The quick brown fox jumps over the lazy dog.
                 </p>
@@ -262,6 +522,108 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     powered by thecolorapi.com
                 </p>
             </div>
+
+            <hr className="border-stone-200 my-4" />
+
+            <h3 className="text-sm font-bold text-stone-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+                <Sparkles size={16} /> Letter Look
+            </h3>
+
+            <div className="mb-6 space-y-3">
+                <div className="grid grid-cols-3 gap-1">
+                    {(Object.keys(LOOK_STYLES) as LookStyle[]).map((style) => (
+                        <button
+                            key={style}
+                            onClick={() => onConfigChange({ ...config, look: createLook(style, config.look.intensity) })}
+                            className={`py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+                                config.look.style === style ? 'bg-stone-800 text-white border-stone-800' : 'bg-white text-stone-600 border-stone-200 hover:bg-stone-100'
+                            }`}
+                        >
+                            {LOOK_STYLES[style].label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                            <span>{LOOK_STYLES[config.look.style].intensityLabel}</span>
+                            <span>{Math.round(config.look.intensity * 100)}%</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0" max="1" step="0.05"
+                            value={config.look.intensity}
+                            onChange={(e) => onConfigChange({ ...config, look: { ...config.look, intensity: parseFloat(e.target.value) } })}
+                            className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                        />
+                    </div>
+                    <div>
+                        <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                            <span>{LOOK_STYLES[config.look.style].sizeLabel}</span>
+                            <span>{config.look.size}{LOOK_STYLES[config.look.style].sizeUnit}</span>
+                        </div>
+                        <input
+                            type="range"
+                            min={LOOK_STYLES[config.look.style].minSize}
+                            max={LOOK_STYLES[config.look.style].maxSize}
+                            step={config.look.style === 'trails' ? 1 : 0.5}
+                            value={config.look.size}
+                            onChange={(e) => onConfigChange({ ...config, look: { ...config.look, size: parseFloat(e.target.value) } })}
+                            className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                        />
+                    </div>
+                </div>
+
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={lookName}
+                        onChange={(e) => setLookName(e.target.value)}
+                        placeholder="Look name"
+                        className="flex-1 min-w-0 h-8 rounded-lg border border-stone-200 bg-white text-stone-800 text-xs px-2 focus:outline-none focus:ring-2 focus:ring-stone-800"
+                    />
+                    <button
+                        onClick={() => {
+                            onSaveLook(lookName.trim());
+                            setLookName('');
+                        }}
+                        className="h-8 px-2 bg-stone-800 text-white rounded-lg hover:bg-stone-700 transition-colors"
+                        title="Save Current Look"
+                    >
+                        <Save size={14} />
+                    </button>
+                </div>
+
+                <div className="flex flex-wrap gap-1">
+                    {[...savedLooks, ...PRESET_LOOKS].map((saved) => (
+                        <div key={saved.id} className="flex items-center rounded-lg border border-stone-200 bg-stone-100 text-[10px] text-stone-600">
+                            <button
+                                onClick={() => onConfigChange({ ...config, look: { ...saved.look } })}
+                                className="px-2 py-1 rounded-lg hover:bg-stone-200 hover:text-stone-800 transition-colors"
+                                title={`${LOOK_STYLES[saved.look.style].label} look`}
+                            >
+                                {saved.name}
+                            </button>
+                            {savedLooks.includes(saved) && (
+                                <button
+                                    onClick={() => onDeleteLook(saved.id)}
+                                    className="pr-1 text-stone-400 hover:text-red-600 transition-colors"
+                                    title="Delete Look"
+                                >
+                                    <X size={10} />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                {config.renderer !== 'canvas' && (
+                    <p className="text-[10px] text-stone-400">
+                        Looks are drawn by the Canvas renderer; {RENDERER_LABELS[config.renderer]} shows plain letters.
+                    </p>
+                )}
+            </div>
             
             <hr className="border-stone-200 my-4" />
 
@@ -287,13 +649,164 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     </div>
                     <input 
                         type="range" 
-                        min="50" max="800" step="50"
+                        min="50" max={config.workerPhysics ? MAX_WORKER_LETTERS : MAX_LETTERS} step="50"
                         value={maxParticles}
                         onChange={(e) => onMaxParticlesChange(parseInt(e.target.value))}
                         className="w-full accent-amber-600 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
                     />
                 </div>
                 
+                <label className="flex items-center justify-between text-xs text-stone-600 cursor-pointer">
+                    <span title="When a performance finishes, the letters fly back into the poem">Reveal Poem at End</span>
+                    <input
+                        type="checkbox"
+                        checked={revealOnFinish}
+                        onChange={(e) => onRevealOnFinishChange(e.target.checked)}
+                        className="accent-amber-600 cursor-pointer"
+                    />
+                </label>
+
+                <label className="flex items-center justify-between text-xs text-stone-600 cursor-pointer">
+                    <span title={isRecordingSupported() ? "Perform Mode saves each take as a WebM video with its sound" : "This browser can't record video"}>Record Takes to Video</span>
+                    <input
+                        type="checkbox"
+                        checked={recording.enabled}
+                        disabled={!isRecordingSupported()}
+                        onChange={(e) => onRecordingChange({ ...recording, enabled: e.target.checked })}
+                        className="accent-amber-600 cursor-pointer disabled:cursor-not-allowed"
+                    />
+                </label>
+
+                {recording.enabled && (
+                    <div className="flex flex-col gap-2">
+                        <div className="grid grid-cols-2 gap-3">
+                            <select
+                                value={recording.height}
+                                onChange={(e) => onRecordingChange({ ...recording, height: parseInt(e.target.value) })}
+                                className="h-8 rounded-lg border border-stone-200 bg-white text-stone-800 text-xs px-2 focus:outline-none focus:ring-2 focus:ring-stone-800 cursor-pointer appearance-auto"
+                                title="Resolution"
+                            >
+                                {RECORDING_HEIGHTS.map((height) => (
+                                    <option key={height} value={height}>{height ? `${height}p` : 'Native'}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={recording.frameRate}
+                                onChange={(e) => onRecordingChange({ ...recording, frameRate: parseInt(e.target.value) })}
+                                className="h-8 rounded-lg border border-stone-200 bg-white text-stone-800 text-xs px-2 focus:outline-none focus:ring-2 focus:ring-stone-800 cursor-pointer appearance-auto"
+                                title="Frame Rate"
+                            >
+                                {RECORDING_FRAME_RATES.map((rate) => (
+                                    <option key={rate} value={rate}>{rate} fps</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                <span>Bitrate</span>
+                                <span>{recording.bitrate} Mbps</span>
+                            </div>
+                            <input
+                                type="range"
+                                min="1" max="25" step="1"
+                                value={recording.bitrate}
+                                onChange={(e) => onRecordingChange({ ...recording, bitrate: parseInt(e.target.value) })}
+                                className="w-full accent-amber-600 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                            />
+                        </div>
+                        <p className="text-[10px] text-stone-400">
+                            Recording starts after the countdown and downloads when the take's tail ends.
+                        </p>
+                    </div>
+                )}
+
+                <div className="flex flex-col gap-2">
+                    <div className="flex justify-between text-xs text-stone-600">
+                        <span title="Renders the take frame by frame off screen, however long that takes, so nothing drops">Offline Export</span>
+                    </div>
+                    <div className="flex rounded-lg border border-stone-200 overflow-hidden">
+                        {EXPORT_FORMATS.map(({ format, label, isSupported }) => (
+                            <button
+                                key={format}
+                                onClick={() => onExportSettingsChange({ ...exportSettings, format })}
+                                disabled={!isSupported() || !!exportProgress}
+                                className={`flex-1 py-1.5 text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                                    exportSettings.format === format ? 'bg-stone-800 text-white' : 'bg-white text-stone-600 hover:bg-stone-100'
+                                }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <select
+                            value={exportSettings.height}
+                            disabled={!!exportProgress}
+                            onChange={(e) => onExportSettingsChange({ ...exportSettings, height: parseInt(e.target.value) })}
+                            className="h-8 rounded-lg border border-stone-200 bg-white text-stone-800 text-xs px-2 focus:outline-none focus:ring-2 focus:ring-stone-800 cursor-pointer appearance-auto"
+                            title="Resolution"
+                        >
+                            {EXPORT_HEIGHTS.map((height) => (
+                                <option key={height} value={height}>{height === 2160 ? '4K' : `${height}p`}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={exportSettings.frameRate}
+                            disabled={!!exportProgress}
+                            onChange={(e) => onExportSettingsChange({ ...exportSettings, frameRate: parseInt(e.target.value) })}
+                            className="h-8 rounded-lg border border-stone-200 bg-white text-stone-800 text-xs px-2 focus:outline-none focus:ring-2 focus:ring-stone-800 cursor-pointer appearance-auto"
+                            title="Frame Rate"
+                        >
+                            {RECORDING_FRAME_RATES.map((rate) => (
+                                <option key={rate} value={rate}>{rate} fps</option>
+                            ))}
+                        </select>
+                    </div>
+                    {exportSettings.format === 'webm' && (
+                        <div>
+                            <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                <span>Bitrate</span>
+                                <span>{exportSettings.bitrate} Mbps</span>
+                            </div>
+                            <input
+                                type="range"
+                                min="4" max="80" step="2"
+                                value={exportSettings.bitrate}
+                                disabled={!!exportProgress}
+                                onChange={(e) => onExportSettingsChange({ ...exportSettings, bitrate: parseInt(e.target.value) })}
+                                className="w-full accent-amber-600 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                            />
+                        </div>
+                    )}
+                    {exportProgress ? (
+                        <div className="flex items-center gap-2">
+                            <span className="flex-1 text-[10px] text-stone-500">
+                                {exportProgress.stage === 'frames' && `Rendering frame ${exportProgress.frames} (${exportProgress.seconds.toFixed(1)}s)`}
+                                {exportProgress.stage === 'audio' && 'Rendering sound...'}
+                                {exportProgress.stage === 'saving' && 'Saving...'}
+                            </span>
+                            <button
+                                onClick={onCancelExport}
+                                className="py-1 px-3 bg-stone-100 border border-stone-200 text-stone-600 rounded-lg text-xs font-medium hover:bg-stone-200 hover:text-stone-800 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    ) : (
+                        <button
+                            onClick={onExportTake}
+                            disabled={!EXPORT_FORMATS.some(({ format, isSupported }) => format === exportSettings.format && isSupported())}
+                            className="w-full py-2 px-3 bg-stone-100 border border-stone-200 text-stone-600 rounded-lg text-xs font-medium hover:bg-stone-200 hover:text-stone-800 flex items-center justify-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Download size={14} />
+                            Render Take
+                        </button>
+                    )}
+                    <p className="text-[10px] text-stone-400">
+                        Replays the poem with the current seed, settings and scenery in the Canvas renderer.
+                    </p>
+                </div>
+                
                 <button 
                     onClick={onRegeneratePoem}
                     disabled={isGenerating}
@@ -309,6 +822,34 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             <h3 className="text-sm font-bold text-stone-400 uppercase tracking-wider mb-4">Physics Settings</h3>
             
             <div className="space-y-4">
+                <div className="flex items-center gap-4">
+                    <GravityDial
+                        angle={config.gravityAngle}
+                        onChange={(angle) => onConfigChange({ ...config, gravityAngle: angle })}
+                    />
+                    <div className="flex-1 space-y-1 text-xs text-stone-600">
+                        <div className="flex justify-between">
+                            <span>Direction</span>
+                            <span>{Math.round(config.gravityAngle)}°</span>
+                        </div>
+                        <p className="text-[10px] text-stone-400">Drag the dial, or tilt with ← → (↓ resets).</p>
+                    </div>
+                </div>
+
+                <div>
+                    <div className="flex justify-between text-xs text-stone-600 mb-1">
+                        <span>World Rotation</span>
+                        <span>{config.gravitySpin === 0 ? 'Off' : `${config.gravitySpin}°/s`}</span>
+                    </div>
+                    <input 
+                        type="range" 
+                        min="-30" max="30" step="1"
+                        value={config.gravitySpin}
+                        onChange={(e) => handleRangeChange('gravitySpin', parseInt(e.target.value))}
+                        className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                    />
+                </div>
+
                 <div>
                     <div className="flex justify-between text-xs text-stone-600 mb-1">
                         <span>Gravity</span>
@@ -336,6 +877,748 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
                     />
                 </div>
+
+                <label className="flex items-center justify-between text-xs text-stone-600 cursor-pointer">
+                    <span title="Each word drops as a single rigid body once it's typed">Whole Words</span>
+                    <input
+                        type="checkbox"
+                        checked={config.wholeWords}
+                        onChange={(e) => onConfigChange({ ...config, wholeWords: e.target.checked, linkWords: e.target.checked ? false : config.linkWords })}
+                        className="accent-stone-800 cursor-pointer"
+                    />
+                </label>
+
+                <label className="flex items-center justify-between text-xs text-stone-600 cursor-pointer">
+                    <span title="Letters of a word are joined and hang together like a chain">Linked Words</span>
+                    <input
+                        type="checkbox"
+                        checked={config.linkWords}
+                        onChange={(e) => onConfigChange({ ...config, linkWords: e.target.checked, wholeWords: e.target.checked ? false : config.wholeWords })}
+                        className="accent-stone-800 cursor-pointer"
+                    />
+                </label>
+
+                {config.linkWords && (
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                <span>Stiffness</span>
+                                <span>{config.linkStiffness.toFixed(2)}</span>
+                            </div>
+                            <input 
+                                type="range" 
+                                min="0.05" max="1" step="0.05"
+                                value={config.linkStiffness}
+                                onChange={(e) => handleRangeChange('linkStiffness', parseFloat(e.target.value))}
+                                className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                            />
+                        </div>
+                        <div>
+                            <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                <span>Break Strength</span>
+                                <span>{config.linkBreakStrength}px</span>
+                            </div>
+                            <input 
+                                type="range" 
+                                min="5" max="150" step="5"
+                                value={config.linkBreakStrength}
+                                onChange={(e) => handleRangeChange('linkBreakStrength', parseInt(e.target.value))}
+                                className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                            />
+                        </div>
+                    </div>
+                )}
+
+                <label className="flex items-center justify-between text-xs text-stone-600 cursor-pointer">
+                    <span title="Letters that come to rest freeze into a permanent heap; drag them or hit them hard to knock them loose">Sediment</span>
+                    <input
+                        type="checkbox"
+                        checked={config.sediment}
+                        onChange={(e) => onConfigChange({ ...config, sediment: e.target.checked })}
+                        className="accent-stone-800 cursor-pointer"
+                    />
+                </label>
+
+                <label className="flex items-center justify-between text-xs text-stone-600 cursor-pointer">
+                    <span title="Letters that hit hard break into shards that fly apart and fade">Shatter</span>
+                    <input
+                        type="checkbox"
+                        checked={config.shatter}
+                        onChange={(e) => onConfigChange({ ...config, shatter: e.target.checked })}
+                        className="accent-stone-800 cursor-pointer"
+                    />
+                </label>
+
+                {config.shatter && (
+                    <div>
+                        <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                            <span>Shatter Speed</span>
+                            <span>{config.shatterSpeed}</span>
+                        </div>
+                        <input 
+                            type="range" 
+                            min="2" max="30" step="1"
+                            value={config.shatterSpeed}
+                            onChange={(e) => handleRangeChange('shatterSpeed', parseInt(e.target.value))}
+                            className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                        />
+                    </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-3" title="After landing, a letter chimes again only on hits at least this hard, and at most this often">
+                    <div>
+                        <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                            <span>Impact Speed</span>
+                            <span>{config.impactThreshold.toFixed(1)}</span>
+                        </div>
+                        <input 
+                            type="range" 
+                            min="0.5" max="15" step="0.5"
+                            value={config.impactThreshold}
+                            onChange={(e) => handleRangeChange('impactThreshold', parseFloat(e.target.value))}
+                            className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                        />
+                    </div>
+                    <div>
+                        <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                            <span>Impact Gap</span>
+                            <span>{config.impactRateLimit}ms</span>
+                        </div>
+                        <input 
+                            type="range" 
+                            min="0" max="1000" step="25"
+                            value={config.impactRateLimit}
+                            onChange={(e) => handleRangeChange('impactRateLimit', parseInt(e.target.value))}
+                            className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                        />
+                    </div>
+                </div>
+
+                <div>
+                    <div className="flex justify-between text-xs text-stone-600 mb-1">
+                        <span>Seed</span>
+                    </div>
+                    <div className="flex gap-2">
+                        <input
+                            type="number"
+                            min="0" step="1"
+                            value={config.seed}
+                            onChange={(e) => handleRangeChange('seed', Math.max(0, parseInt(e.target.value) || 0))}
+                            className="flex-1 min-w-0 h-8 rounded-lg border border-stone-200 bg-white text-stone-800 text-xs px-2 font-mono focus:outline-none focus:ring-2 focus:ring-stone-800"
+                        />
+                        <button
+                            onClick={() => handleRangeChange('seed', randomSeed())}
+                            className="h-8 px-2 bg-stone-100 border border-stone-200 text-stone-600 rounded-lg hover:bg-stone-200 hover:text-stone-800 transition-colors"
+                            title="New Random Seed"
+                        >
+                            <Dices size={14} />
+                        </button>
+                    </div>
+                </div>
+
+                <label className="flex items-center justify-between text-xs text-stone-600 cursor-pointer">
+                    <span title="Typing runs on the simulation clock; the same seed and text replay identically">Fixed-Step Simulation</span>
+                    <input
+                        type="checkbox"
+                        checked={config.fixedStep}
+                        onChange={(e) => onConfigChange({ ...config, fixedStep: e.target.checked })}
+                        className="accent-stone-800 cursor-pointer"
+                    />
+                </label>
+                <p className="text-[10px] text-stone-400">
+                    Clearing or starting Perform Mode restarts from the seed, so a take can be replayed exactly.
+                </p>
+
+                <label className="flex items-center justify-between text-xs text-stone-600 cursor-pointer">
+                    <span title="Run the physics off the main thread so typing stays smooth with thousands of letters">Physics in Worker</span>
+                    <input
+                        type="checkbox"
+                        checked={config.workerPhysics}
+                        onChange={(e) => {
+                            onConfigChange({ ...config, workerPhysics: e.target.checked });
+                            if (!e.target.checked && maxParticles > MAX_LETTERS) onMaxParticlesChange(MAX_LETTERS);
+                        }}
+                        className="accent-stone-800 cursor-pointer"
+                    />
+                </label>
+
+                <div>
+                    <div className="flex justify-between text-xs text-stone-600 mb-1">
+                        <span>Renderer</span>
+                    </div>
+                    <div className="flex rounded-lg border border-stone-200 overflow-hidden">
+                        {(Object.keys(RENDERER_LABELS) as RendererKind[]).map((kind) => (
+                            <button
+                                key={kind}
+                                onClick={() => onConfigChange({ ...config, renderer: kind })}
+                                className={`flex-1 py-1.5 text-xs font-medium transition-colors ${
+                                    config.renderer === kind ? 'bg-stone-800 text-white' : 'bg-white text-stone-600 hover:bg-stone-100'
+                                }`}
+                            >
+                                {RENDERER_LABELS[kind]}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-stone-400 mt-1">
+                        WebGL keeps hundreds of letters smooth; SVG keeps the text readable by screen readers. Both draw jelly letters rigid.
+                    </p>
+                </div>
+            </div>
+
+            <hr className="border-stone-200 my-4" />
+
+            <h3 className="text-sm font-bold text-stone-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+                <Wind size={16} /> Force Fields
+            </h3>
+
+            <div className="space-y-4 mb-6">
+                <div className="grid grid-cols-4 gap-1">
+                    {FORCE_FIELD_KINDS.map(({ kind, label, icon }) => (
+                        <button
+                            key={kind}
+                            onClick={() => onAddForceField(kind)}
+                            className="py-2 flex flex-col items-center gap-1 bg-stone-100 border border-stone-200 text-stone-600 rounded-lg text-[10px] font-medium hover:bg-stone-200 hover:text-stone-800 transition-colors"
+                            title={`Add ${label} Field`}
+                        >
+                            {icon}
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                {forceFields.map((field) => (
+                    <div key={field.id} className="space-y-2 pl-2 border-l-2" style={{ borderColor: FORCE_FIELD_COLORS[field.kind] }}>
+                        <div className="flex items-center justify-between text-xs text-stone-600">
+                            <span className="font-medium capitalize">{field.kind}</span>
+                            <button
+                                onClick={() => onForceFieldsChange(forceFields.filter(f => f.id !== field.id))}
+                                className="p-1 rounded text-stone-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                                title="Remove Field"
+                            >
+                                <X size={12} />
+                            </button>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                    <span>Strength</span>
+                                    <span>{field.strength.toFixed(1)}</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="0" max="5" step="0.1"
+                                    value={field.strength}
+                                    onChange={(e) => handleForceFieldChange(field.id, { strength: parseFloat(e.target.value) })}
+                                    className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                                />
+                            </div>
+                            <div>
+                                <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                    <span>Radius</span>
+                                    <span>{Math.round(field.radius)}px</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="20" max="1000" step="10"
+                                    value={field.radius}
+                                    onChange={(e) => handleForceFieldChange(field.id, { radius: parseInt(e.target.value) })}
+                                    className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                                />
+                            </div>
+                        </div>
+                        {field.kind === 'wind' && (
+                            <div>
+                                <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                    <span>Direction</span>
+                                    <span>{Math.round(field.angle * 180 / Math.PI)}°</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="-180" max="180" step="5"
+                                    value={Math.round(field.angle * 180 / Math.PI)}
+                                    onChange={(e) => handleForceFieldChange(field.id, { angle: parseInt(e.target.value) * Math.PI / 180 })}
+                                    className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                                />
+                            </div>
+                        )}
+                    </div>
+                ))}
+
+                {forceFields.length > 0 && (
+                    <p className="text-[10px] text-stone-400 text-center">
+                        Drag the handles on the canvas to move, resize and aim fields.
+                    </p>
+                )}
+            </div>
+
+            <hr className="border-stone-200 my-4" />
+
+            <h3 className="text-sm font-bold text-stone-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+                <Weight size={16} /> Materials
+            </h3>
+
+            <div className="space-y-4 mb-6">
+                <div className="flex gap-2">
+                    <select
+                        value={newMaterialMatch}
+                        onChange={(e) => setNewMaterialMatch(e.target.value as MaterialMatch)}
+                        className="flex-1 min-w-0 h-8 rounded-lg border border-stone-200 bg-white text-stone-800 text-xs px-2 focus:outline-none focus:ring-2 focus:ring-stone-800 cursor-pointer appearance-auto"
+                    >
+                        {(Object.keys(MATERIAL_MATCH_LABELS) as MaterialMatch[]).map(match => (
+                            <option key={match} value={match}>{MATERIAL_MATCH_LABELS[match]}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => onConfigChange({ ...config, materials: [...config.materials, createMaterial(newMaterialMatch)] })}
+                        className="h-8 px-2 bg-stone-100 border border-stone-200 text-stone-600 rounded-lg hover:bg-stone-200 hover:text-stone-800 transition-colors"
+                        title="Add Material"
+                    >
+                        <Plus size={14} />
+                    </button>
+                    <button
+                        onClick={handleAddPresetMaterials}
+                        className="h-8 px-2 bg-stone-100 border border-stone-200 text-stone-600 rounded-lg text-[10px] font-medium hover:bg-stone-200 hover:text-stone-800 transition-colors"
+                        title="Add heavy capitals, bouncy vowels and slippery punctuation"
+                    >
+                        Presets
+                    </button>
+                </div>
+
+                {config.materials.map((material) => (
+                    <div key={material.id} className="space-y-2 pl-2 border-l-2 border-stone-300">
+                        <div className="flex items-center justify-between gap-2 text-xs text-stone-600">
+                            <input
+                                type="text"
+                                value={material.name}
+                                onChange={(e) => handleMaterialChange(material.id, { name: e.target.value })}
+                                className="flex-1 min-w-0 bg-transparent font-medium focus:outline-none"
+                            />
+                            <button
+                                onClick={() => onConfigChange({ ...config, materials: config.materials.filter(m => m.id !== material.id) })}
+                                className="p-1 rounded text-stone-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                                title="Remove Material"
+                            >
+                                <X size={12} />
+                            </button>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <select
+                                value={material.match}
+                                onChange={(e) => handleMaterialChange(material.id, { match: e.target.value as MaterialMatch })}
+                                className="h-7 rounded-lg border border-stone-200 bg-white text-stone-800 text-[10px] px-1 focus:outline-none focus:ring-2 focus:ring-stone-800 cursor-pointer appearance-auto"
+                            >
+                                {(Object.keys(MATERIAL_MATCH_LABELS) as MaterialMatch[]).map(match => (
+                                    <option key={match} value={match}>{MATERIAL_MATCH_LABELS[match]}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={material.sound || ''}
+                                onChange={(e) => handleMaterialChange(material.id, { sound: (e.target.value || undefined) as SoundProfile | undefined })}
+                                className="h-7 rounded-lg border border-stone-200 bg-white text-stone-800 text-[10px] px-1 capitalize focus:outline-none focus:ring-2 focus:ring-stone-800 cursor-pointer appearance-auto"
+                                title="Sound"
+                            >
+                                <option value="">Default Sound</option>
+                                {SOUND_PROFILES.map(profile => (
+                                    <option key={profile} value={profile}>{profile}</option>
+                                ))}
+                            </select>
+                        </div>
+                        {material.match === 'chars' && (
+                            <input
+                                type="text"
+                                value={material.chars}
+                                placeholder="Characters, e.g. xyz!?"
+                                onChange={(e) => handleMaterialChange(material.id, { chars: e.target.value })}
+                                className="w-full h-8 rounded-lg border border-stone-200 bg-white text-stone-800 text-xs px-2 focus:outline-none focus:ring-2 focus:ring-stone-800"
+                            />
+                        )}
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                    <span>Density</span>
+                                    <span>{(material.density * 1000).toFixed(1)}×</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="0.0002" max="0.01" step="0.0002"
+                                    value={material.density}
+                                    onChange={(e) => handleMaterialChange(material.id, { density: parseFloat(e.target.value) })}
+                                    className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                                />
+                            </div>
+                            <div>
+                                <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                    <span>Bounce</span>
+                                    <span>{material.restitution.toFixed(2)}</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="0" max="1.2" step="0.05"
+                                    value={material.restitution}
+                                    onChange={(e) => handleMaterialChange(material.id, { restitution: parseFloat(e.target.value) })}
+                                    className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                                />
+                            </div>
+                            <div>
+                                <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                    <span>Friction</span>
+                                    <span>{material.friction.toFixed(2)}</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="0" max="1" step="0.01"
+                                    value={material.friction}
+                                    onChange={(e) => handleMaterialChange(material.id, { friction: parseFloat(e.target.value) })}
+                                    className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                                />
+                            </div>
+                            <div>
+                                <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                    <span>Air Friction</span>
+                                    <span>{material.frictionAir.toFixed(3)}</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="0" max="0.1" step="0.001"
+                                    value={material.frictionAir}
+                                    onChange={(e) => handleMaterialChange(material.id, { frictionAir: parseFloat(e.target.value) })}
+                                    className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                                />
+                            </div>
+                        </div>
+                    </div>
+                ))}
+
+                {config.materials.length > 0 && (
+                    <p className="text-[10px] text-stone-400 text-center">
+                        The first matching material wins; other letters keep the global Bounciness.
+                    </p>
+                )}
+            </div>
+
+            <hr className="border-stone-200 my-4" />
+
+            <h3 className="text-sm font-bold text-stone-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+                <Square size={16} /> Boundaries
+            </h3>
+
+            <div className="space-y-4">
+                {BOUNDARY_LABELS.map(({ type, label }) => {
+                    const boundary = config.boundaries[type];
+                    return (
+                        <div key={type} className="space-y-2">
+                            <div className="flex items-center justify-between text-xs text-stone-600">
+                                <span className="font-medium">{label}</span>
+                                <div className="flex gap-1">
+                                    <button
+                                        onClick={() => handleBoundaryChange(type, { enabled: !boundary.enabled })}
+                                        className={`px-2 py-0.5 rounded border text-[10px] transition-colors ${
+                                            boundary.enabled ? 'bg-stone-800 text-white border-stone-800' : 'bg-white text-stone-500 border-stone-200'
+                                        }`}
+                                        title={boundary.enabled ? "Remove this wall" : "Add this wall"}
+                                    >
+                                        {boundary.enabled ? 'On' : 'Off'}
+                                    </button>
+                                    <button
+                                        onClick={() => handleBoundaryChange(type, { wrap: !boundary.wrap })}
+                                        className={`px-2 py-0.5 rounded border text-[10px] transition-colors ${
+                                            boundary.wrap ? 'bg-amber-100 text-amber-700 border-amber-300' : 'bg-white text-stone-500 border-stone-200'
+                                        }`}
+                                        title="Letters leaving this edge come back on the opposite side"
+                                    >
+                                        Wrap
+                                    </button>
+                                </div>
+                            </div>
+                            {boundary.enabled && !boundary.wrap && (
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                            <span>Bounce</span>
+                                            <span>{boundary.restitution.toFixed(1)}</span>
+                                        </div>
+                                        <input 
+                                            type="range" 
+                                            min="0" max="1.2" step="0.1"
+                                            value={boundary.restitution}
+                                            onChange={(e) => handleBoundaryChange(type, { restitution: parseFloat(e.target.value) })}
+                                            className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                                        />
+                                    </div>
+                                    <div>
+                                        <div className="flex justify-between text-[10px] text-stone-500 mb-1">
+                                            <span>Friction</span>
+                                            <span>{boundary.friction.toFixed(1)}</span>
+                                        </div>
+                                        <input 
+                                            type="range" 
+                                            min="0" max="1" step="0.1"
+                                            value={boundary.friction}
+                                            onChange={(e) => handleBoundaryChange(type, { friction: parseFloat(e.target.value) })}
+                                            className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                                        />
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+
+                <div className="space-y-2">
+                    <div className="flex items-center justify-between text-xs text-stone-600">
+                        <span className="font-medium">Container</span>
+                        {config.container && (
+                            <button
+                                onClick={() => onConfigChange({ ...config, container: config.container && { ...config.container, openTop: !config.container.openTop } })}
+                                className={`px-2 py-0.5 rounded border text-[10px] transition-colors ${
+                                    config.container.openTop ? 'bg-amber-100 text-amber-700 border-amber-300' : 'bg-white text-stone-500 border-stone-200'
+                                }`}
+                                title="Cut an opening into the top of closed outlines so letters can fall in"
+                            >
+                                Open Top
+                            </button>
+                        )}
+                    </div>
+                    <div className="flex rounded-lg border border-stone-200 overflow-hidden">
+                        <button
+                            onClick={() => onConfigChange({ ...config, container: null })}
+                            className={`flex-1 py-1.5 text-xs font-medium transition-colors ${
+                                !config.container ? 'bg-stone-800 text-white' : 'bg-white text-stone-600 hover:bg-stone-100'
+                            }`}
+                            title="Letters fill the whole screen"
+                        >
+                            None
+                        </button>
+                        {(Object.keys(CONTAINER_PRESETS) as ContainerPreset[]).map((preset) => (
+                            <button
+                                key={preset}
+                                onClick={() => onConfigChange({ ...config, container: createPresetContainer(preset) })}
+                                className={`flex-1 py-1.5 text-xs font-medium transition-colors ${
+                                    config.container?.name === CONTAINER_PRESETS[preset].name ? 'bg-stone-800 text-white' : 'bg-white text-stone-600 hover:bg-stone-100'
+                                }`}
+                            >
+                                {CONTAINER_PRESETS[preset].name}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={containerTitle}
+                            onChange={(e) => setContainerTitle(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleOutlineTitle();
+                            }}
+                            placeholder="Title to fill"
+                            className="flex-1 min-w-0 h-8 rounded-lg border border-stone-200 bg-white text-stone-800 text-xs px-2 focus:outline-none focus:ring-2 focus:ring-stone-800"
+                        />
+                        <button
+                            onClick={handleOutlineTitle}
+                            className="h-8 px-2 bg-stone-100 border border-stone-200 text-stone-600 rounded-lg hover:bg-stone-200 hover:text-stone-800 transition-colors"
+                            title="Use the outline of this title, in the current font"
+                        >
+                            <Type size={14} />
+                        </button>
+                        <button
+                            onClick={() => containerInputRef.current?.click()}
+                            className="h-8 px-2 bg-stone-100 border border-stone-200 text-stone-600 rounded-lg hover:bg-stone-200 hover:text-stone-800 transition-colors"
+                            title="Load an outline from an SVG file"
+                        >
+                            <Upload size={14} />
+                        </button>
+                        <input
+                            ref={containerInputRef}
+                            type="file"
+                            accept=".svg,image/svg+xml"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleLoadContainer(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </div>
+                    {config.container && (
+                        <p className="text-[10px] text-stone-400 text-center truncate">
+                            Filling {config.container.name}; it bounces like the floor.
+                        </p>
+                    )}
+                </div>
+            </div>
+
+            <hr className="border-stone-200 my-4" />
+
+            <h3 className="text-sm font-bold text-stone-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+                <Images size={16} /> Scenes
+            </h3>
+
+            <div className="space-y-3">
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={sceneName}
+                        onChange={(e) => setSceneName(e.target.value)}
+                        placeholder="Scene name"
+                        className="flex-1 min-w-0 h-8 rounded-lg border border-stone-200 bg-white text-stone-800 text-xs px-2 focus:outline-none focus:ring-2 focus:ring-stone-800"
+                    />
+                    <button
+                        onClick={() => {
+                            onSaveScene(sceneName.trim());
+                            setSceneName('');
+                        }}
+                        className="h-8 px-2 bg-stone-800 text-white rounded-lg hover:bg-stone-700 transition-colors"
+                        title="Save Current Scene"
+                    >
+                        <Save size={14} />
+                    </button>
+                </div>
+
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => onExportScene()}
+                        className="flex-1 py-1.5 bg-stone-100 border border-stone-200 text-stone-600 rounded-lg text-xs font-medium hover:bg-stone-200 hover:text-stone-800 flex items-center justify-center gap-1 transition-colors"
+                    >
+                        <Download size={12} /> Export
+                    </button>
+                    <button
+                        onClick={() => importInputRef.current?.click()}
+                        className="flex-1 py-1.5 bg-stone-100 border border-stone-200 text-stone-600 rounded-lg text-xs font-medium hover:bg-stone-200 hover:text-stone-800 flex items-center justify-center gap-1 transition-colors"
+                    >
+                        <Upload size={12} /> Import
+                    </button>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onImportScene(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+
+                {savedScenes.map((scene) => (
+                    <div key={scene.id} className="flex items-center gap-1 text-xs text-stone-600">
+                        <button
+                            onClick={() => onLoadScene(scene.id)}
+                            className="flex-1 min-w-0 text-left px-2 py-1 rounded hover:bg-stone-100 transition-colors"
+                            title="Load Scene"
+                        >
+                            <span className="block truncate font-medium">{scene.name}</span>
+                            <span className="block text-[10px] text-stone-400">
+                                {scene.snapshot.letters.length} letters • {new Date(scene.savedAt).toLocaleString()}
+                            </span>
+                        </button>
+                        <button
+                            onClick={() => onExportScene(scene.id)}
+                            className="p-1 rounded text-stone-400 hover:text-stone-800 hover:bg-stone-100 transition-colors"
+                            title="Export Scene"
+                        >
+                            <Download size={12} />
+                        </button>
+                        <button
+                            onClick={() => onDeleteScene(scene.id)}
+                            className="p-1 rounded text-stone-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                            title="Delete Scene"
+                        >
+                            <X size={12} />
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            <hr className="border-stone-200 my-4" />
+
+            <h3 className="text-sm font-bold text-stone-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+                <ImageDown size={16} /> Poster
+            </h3>
+
+            <div className="space-y-3">
+                <div className="flex rounded-lg border border-stone-200 overflow-hidden">
+                    {POSTER_FORMATS.map(({ format, label }) => (
+                        <button
+                            key={format}
+                            onClick={() => onPosterChange({ ...poster, format })}
+                            className={`flex-1 py-1.5 text-xs font-medium transition-colors ${
+                                poster.format === format ? 'bg-stone-800 text-white' : 'bg-white text-stone-600 hover:bg-stone-100'
+                            }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <input
+                        type="number"
+                        min="256" max={MAX_POSTER_WIDTH} step="1"
+                        value={poster.width}
+                        onChange={(e) => {
+                            const width = parseInt(e.target.value);
+                            onPosterChange({ ...poster, width: Number.isFinite(width) ? Math.min(MAX_POSTER_WIDTH, Math.max(1, width)) : DEFAULT_POSTER.width });
+                        }}
+                        className="h-8 rounded-lg border border-stone-200 bg-white text-stone-800 text-xs px-2 focus:outline-none focus:ring-2 focus:ring-stone-800"
+                        title="Width (px)"
+                    />
+                    <select
+                        value={poster.dpi}
+                        onChange={(e) => onPosterChange({ ...poster, dpi: parseInt(e.target.value) })}
+                        className="h-8 rounded-lg border border-stone-200 bg-white text-stone-800 text-xs px-2 focus:outline-none focus:ring-2 focus:ring-stone-800 cursor-pointer appearance-auto"
+                        title="Print Resolution"
+                    >
+                        {POSTER_DPIS.map((dpi) => (
+                            <option key={dpi} value={dpi}>{dpi} dpi</option>
+                        ))}
+                    </select>
+                </div>
+                <p className="text-[10px] text-stone-400">
+                    {poster.width} px wide prints at {(poster.width / poster.dpi).toFixed(1)} in; the height follows the window.
+                </p>
+
+                <div className="flex items-center justify-between text-xs text-stone-600">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={poster.background === null}
+                            onChange={(e) => onPosterChange({ ...poster, background: e.target.checked ? null : DEFAULT_POSTER.background })}
+                            className="accent-amber-600 cursor-pointer"
+                        />
+                        Transparent
+                    </label>
+                    {poster.background !== null && (
+                        <input
+                            type="color"
+                            value={poster.background}
+                            onChange={(e) => onPosterChange({ ...poster, background: e.target.value })}
+                            className="w-8 h-6 p-0 border-0 rounded cursor-pointer"
+                            title="Background Color"
+                        />
+                    )}
+                </div>
+
+                <input
+                    type="text"
+                    value={poster.title}
+                    onChange={(e) => onPosterChange({ ...poster, title: e.target.value })}
+                    placeholder="Title (optional)"
+                    className="w-full h-8 rounded-lg border border-stone-200 bg-white text-stone-800 text-xs px-2 focus:outline-none focus:ring-2 focus:ring-stone-800"
+                />
+
+                <button
+                    onClick={onCapturePoster}
+                    disabled={isCapturingPoster}
+                    className="w-full py-2 px-3 bg-stone-800 text-white rounded-lg text-xs font-medium hover:bg-stone-700 flex items-center justify-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <ImageDown size={14} />
+                    {isCapturingPoster ? "Capturing..." : "Capture Poster"}
+                </button>
+                {poster.format === 'svg' && (
+                    <p className="text-[10px] text-stone-400">
+                        The SVG holds the letters and title as editable text; obstacles and letter looks are left out.
+                    </p>
+                )}
             </div>
         </div>
       )}
@@ -0,0 +1,51 @@
+import React, { useRef } from 'react';
+
+interface GravityDialProps {
+  angle: number; // Degrees from straight down, see gravityService
+  onChange: (angle: number) => void;
+  size?: number;
+}
+
+// Circular dial showing which way "down" points. Drag anywhere on it to aim gravity.
+const GravityDial: React.FC<GravityDialProps> = ({ angle, onChange, size = 72 }) => {
+  const dialRef = useRef<SVGSVGElement>(null);
+  const center = size / 2;
+  const radius = size / 2 - 6;
+  const rad = angle * Math.PI / 180;
+  const tipX = center + Math.sin(rad) * radius;
+  const tipY = center + Math.cos(rad) * radius;
+
+  const updateFromPointer = (e: React.PointerEvent) => {
+    if (!dialRef.current) return;
+    const rect = dialRef.current.getBoundingClientRect();
+    const dx = e.clientX - (rect.left + rect.width / 2);
+    const dy = e.clientY - (rect.top + rect.height / 2);
+    if (Math.hypot(dx, dy) < 4) return;
+    onChange(Math.round(Math.atan2(dx, dy) * 180 / Math.PI));
+  };
+
+  return (
+    <svg
+        ref={dialRef}
+        width={size}
+        height={size}
+        className="shrink-0 cursor-pointer touch-none"
+        onPointerDown={(e) => {
+            (e.target as Element).setPointerCapture(e.pointerId);
+            updateFromPointer(e);
+        }}
+        onPointerMove={(e) => {
+            if (e.buttons & 1) updateFromPointer(e);
+        }}
+    >
+        <circle cx={center} cy={center} r={radius} fill="#f5f5f4" stroke="#d6d3d1" strokeWidth={2} />
+        {/* Straight-down reference mark */}
+        <line x1={center} y1={center + radius - 6} x2={center} y2={center + radius} stroke="#a8a29e" strokeWidth={2} />
+        <line x1={center} y1={center} x2={tipX} y2={tipY} stroke="#292524" strokeWidth={3} strokeLinecap="round" />
+        <circle cx={tipX} cy={tipY} r={5} fill="#292524" />
+        <circle cx={center} cy={center} r={3} fill="#292524" />
+    </svg>
+  );
+};
+
+export default GravityDial;
@@ -1,431 +1,407 @@
-
-import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
-import Matter from 'matter-js';
-import { PhysicsConfig } from '../types';
-
-const FADE_DURATION = 600; // ms for the fade-out animation
+import React, { useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
+import { CollisionEvent, Container, EditTool, ForceField, Obstacle, PhysicsConfig, RendererKind, SceneSnapshot } from '../types';
+import { drawObstacle, hitTestObstacle } from '../services/obstacleService';
+import { dragForceFieldHandle, ForceFieldHandle, hitTestForceFieldHandle } from '../services/forceFieldService';
+import { FIXED_DELTA, Simulation } from '../services/simulationService';
+import { fitContainer } from '../services/containerService';
+import { drawPendingWord, drawScenery, Renderer } from '../services/rendererService';
+import { CanvasRenderer } from '../services/canvasRenderer';
+import { WebGLRenderer } from '../services/webglRenderer';
+import { SvgRenderer } from '../services/svgRenderer';
+import { RecordingLayer } from '../services/recordingService';
+
+const MIN_OBSTACLE_SIZE = 6; // px; shorter drags are treated as stray clicks
+const MAX_STEPS_PER_FRAME = 4; // catch-up limit; longer stalls drop simulated time
+
+const createRenderer = (kind: RendererKind): Renderer => {
+  if (kind === 'svg') return new SvgRenderer();
+  if (kind === 'webgl') {
+    try {
+      return new WebGLRenderer();
+    } catch (e) {
+      console.error("WebGL renderer unavailable, falling back to Canvas:", e);
+    }
+  }
+  return new CanvasRenderer();
+};
 
 interface PhysicsWorldProps {
+  // The headless simulation this component draws and lets the user interact with
+  simulation: Simulation;
   config: PhysicsConfig;
   fontFamily: string;
   onReady?: () => void;
-  onCollision?: () => void;
+  onCollision?: (impact: CollisionEvent) => void;
+  editTool?: EditTool;
+  forceFields?: ForceField[];
+  onForceFieldsChange?: (fields: ForceField[]) => void;
+  // Called at the start of every engine step with the simulation time in ms
+  onStep?: (time: number) => void;
 }
 
 export interface PhysicsWorldHandle {
-  addText: (text: string, x?: number, y?: number, color?: string) => void;
-  clearWorld: () => void;
-  pruneBodies: (maxCount: number) => void;
+  // Removes every obstacle along with any shape being drawn or selected
+  clearObstacles: () => void;
+  // Replaces all letters and obstacles with the snapshot's, dropping any edit in progress
+  restoreScene: (snapshot: SceneSnapshot) => void;
+  // The scenery canvas and the letter renderer's element, bottom first, for recording
+  getLayers: () => RecordingLayer[];
 }
 
-const PhysicsWorld = forwardRef<PhysicsWorldHandle, PhysicsWorldProps>(({ config, fontFamily, onReady, onCollision }, ref) => {
+// Canvas view over a SimulationService: runs it in real time in fixed steps, draws
+// letters, obstacles and force fields, and handles dragging and editing.
+const PhysicsWorld = forwardRef<PhysicsWorldHandle, PhysicsWorldProps>(({ simulation, config, fontFamily, onReady, onCollision, editTool = null, forceFields = [], onForceFieldsChange, onStep }, ref) => {
   const sceneRef = useRef<HTMLDivElement>(null);
-  const engineRef = useRef<Matter.Engine | null>(null);
-  const renderRef = useRef<Matter.Render | null>(null);
-  const runnerRef = useRef<Matter.Runner | null>(null);
-  
-  // Use refs so render loop and imperative handle can access latest props
-  const fontRef = useRef(fontFamily);
-  const configRef = useRef(config);
-  const onCollisionRef = useRef(onCollision);
-  
-  // Track previous effective size (fontSize * spacing) to handle scaling of existing bodies
-  const prevEffectiveSizeRef = useRef(config.fontSize * config.spacing);
+  // Letters are drawn by this backend, stacked over the scenery canvas
+  const rendererRef = useRef<Renderer | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const selectedObstacleIdRef = useRef<string | null>(null);
+  // Shape being drawn; `cursor` is the live mouse position for previewing the next point
+  const draftRef = useRef<{ obstacle: Obstacle, cursor: { x: number, y: number } } | null>(null);
+  const editToolRef = useRef<EditTool>(editTool);
 
+  const fieldDragRef = useRef<{ id: string, handle: ForceFieldHandle } | null>(null);
+  const isGrabbingRef = useRef(false);
+
+  // Keep the simulation in step with the props
   useEffect(() => {
-    fontRef.current = fontFamily;
-  }, [fontFamily]);
-  
+    simulation.setFontFamily(fontFamily);
+  }, [simulation, fontFamily]);
+
   useEffect(() => {
-    onCollisionRef.current = onCollision;
-  }, [onCollision]);
+    simulation.setConfig(config);
+  }, [simulation, config]);
 
   useEffect(() => {
-    configRef.current = config;
-  }, [config]);
-  
-  // Expose methods to parent
-  useImperativeHandle(ref, () => ({
-    addText: (text: string, startX?: number, startY?: number, color: string = '#292524') => {
-      if (!engineRef.current) return;
-      
-      const world = engineRef.current.world;
-      const width = sceneRef.current ? sceneRef.current.clientWidth : window.innerWidth;
-      const fontSize = configRef.current.fontSize;
-      const spacing = configRef.current.spacing;
-      
-      // Calculate spawn position
-      // If no X provided, randomize it
-      const safeX = startX ?? Math.random() * (width * 0.8) + (width * 0.1);
-      const safeY = startY ?? -50;
-
-      let offsetX = 0;
-
-      for (const char of text) {
-        if (char === ' ') {
-            // Ensure spaces also respect the minimum visual width so we don't collapse spaces when spacing is low
-            offsetX += fontSize * 0.6 * Math.max(1, spacing);
-            continue;
+    simulation.setForceFields(forceFields);
+  }, [simulation, forceFields]);
+
+  useEffect(() => {
+    simulation.onCollision = onCollision;
+    simulation.onStep = onStep;
+  }, [simulation, onCollision, onStep]);
+
+  // Swap the letter renderer; the frame loop picks it up from the ref
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    const letterRenderer = createRenderer(config.renderer);
+    const element = letterRenderer.element;
+    element.style.position = 'absolute';
+    element.style.left = '0';
+    element.style.top = '0';
+    element.style.pointerEvents = 'none';
+    scene.appendChild(element);
+    letterRenderer.resize(simulation.width, simulation.height, window.devicePixelRatio || 1);
+    rendererRef.current = letterRenderer;
+
+    return () => {
+      rendererRef.current = null;
+      letterRenderer.destroy();
+      element.remove();
+    };
+  }, [simulation, config.renderer]);
+
+  const removeObstacle = (id: string) => {
+    simulation.removeObstacle(id);
+    if (selectedObstacleIdRef.current === id) selectedObstacleIdRef.current = null;
+  };
+
+  const commitDraft = () => {
+    const draft = draftRef.current;
+    draftRef.current = null;
+    if (!draft) return;
+
+    const { obstacle } = draft;
+    const isBigEnough = obstacle.kind === 'circle'
+        ? (obstacle.radius || 0) >= MIN_OBSTACLE_SIZE
+        : obstacle.points.length >= 2 && obstacle.points.some(p => Math.hypot(p.x - obstacle.points[0].x, p.y - obstacle.points[0].y) >= MIN_OBSTACLE_SIZE);
+    if (isBigEnough) simulation.addObstacle(obstacle);
+  };
+
+  // Switch between editing and normal interaction
+  useEffect(() => {
+    editToolRef.current = editTool;
+    // Finish any polyline in progress rather than silently dropping it
+    if (draftRef.current) commitDraft();
+    if (!editTool) selectedObstacleIdRef.current = null;
+
+    // Letters can't be grabbed while drawing, otherwise every stroke would also drag a letter
+    if (editTool && isGrabbingRef.current) {
+        simulation.release();
+        isGrabbingRef.current = false;
+    }
+  }, [editTool]);
+
+  // Editing keys: Delete/Backspace removes the selection, Enter finishes a polyline, Escape cancels
+  useEffect(() => {
+    if (!editTool) return;
+
+    const handleEditKey = (e: KeyboardEvent) => {
+        // Keys typed into a form field edit the field, not the scene. The hidden typing
+        // input holds focus over the canvas, so it still counts as the scene.
+        const target = e.target as HTMLElement;
+        const isField = ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable;
+        if (isField && target.id !== 'hidden-type-input') return;
+
+        if (e.key === 'Delete' || e.key === 'Backspace') {
+            if (selectedObstacleIdRef.current) removeObstacle(selectedObstacleIdRef.current);
+        } else if (e.key === 'Enter') {
+            commitDraft();
+        } else if (e.key === 'Escape') {
+            draftRef.current = null;
+            selectedObstacleIdRef.current = null;
         }
+    };
+    window.addEventListener('keydown', handleEditKey);
+    return () => window.removeEventListener('keydown', handleEditKey);
+  }, [editTool]);
+
+  const getLocalPoint = (e: React.PointerEvent) => {
+    const rect = sceneRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const tool = editToolRef.current;
+    if (e.button !== 0) return;
+    const point = getLocalPoint(e);
+
+    // Outside editing, the pointer drags letters around
+    if (!tool) {
+        simulation.grab(point);
+        isGrabbingRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        return;
+    }
 
-        const body = Matter.Bodies.rectangle(
-            safeX + offsetX, 
-            safeY, 
-            fontSize * 0.6 * spacing, // Width scaled by spacing
-            fontSize * 0.8 * spacing, // Height scaled by spacing
-            {
-                // Very slight random rotation for natural look, but small enough to keep words legible initially
-                angle: (Math.random() - 0.5) * 0.05, 
-                restitution: configRef.current.restitution,
-                friction: configRef.current.friction,
-                render: {
-                    fillStyle: 'transparent', 
-                },
-                label: 'letter'
+    if (tool === 'fields') {
+        // Topmost field wins when handles overlap
+        for (let i = simulation.forceFields.length - 1; i >= 0; i--) {
+            const field = simulation.forceFields[i];
+            const handle = hitTestForceFieldHandle(field, point);
+            if (handle) {
+                fieldDragRef.current = { id: field.id, handle };
+                return;
             }
+        }
+        return;
+    }
+
+    if (tool === 'select') {
+        const hit = simulation.getObstacles().reverse().find(obstacle => hitTestObstacle(obstacle, point));
+        selectedObstacleIdRef.current = hit ? hit.id : null;
+        return;
+    }
+
+    if (tool === 'polyline' && draftRef.current) {
+        draftRef.current.obstacle.points.push(point);
+        return;
+    }
+
+    draftRef.current = {
+        obstacle: {
+            id: `obstacle-${Date.now()}-${Math.floor(Math.random() * 1e6)}`,
+            kind: tool,
+            points: tool === 'circle' ? [point] : [point, { ...point }],
+            radius: tool === 'circle' ? 0 : undefined,
+        },
+        cursor: point,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (isGrabbingRef.current) {
+        simulation.drag(getLocalPoint(e));
+        return;
+    }
+
+    const fieldDrag = fieldDragRef.current;
+    if (fieldDrag) {
+        const point = getLocalPoint(e);
+        const updated = simulation.forceFields.map(field =>
+            field.id === fieldDrag.id ? dragForceFieldHandle(field, fieldDrag.handle, point) : field
         );
-        
-        // Attach custom data for rendering
-        (body as any).char = char;
-        (body as any).color = color;
-        (body as any).createdAt = Date.now();
-        (body as any).hasCollided = false; // Track collision for audio
-
-        // Add slight upward motion as letter appears
-        Matter.Body.setVelocity(body, {
-            x: (Math.random() - 0.5) * 0.5, // Tiny horizontal variance for natural feel
-            y: -2 // Upward motion
-        });
+        // Update the simulation right away so the next frame uses the new position before React re-renders
+        simulation.setForceFields(updated);
+        onForceFieldsChange?.(updated);
+        return;
+    }
 
-        Matter.World.add(world, body);
-        // Use Math.max(1, spacing) to ensure we always advance at least the visual width of the letter,
-        // even if the physics body is tiny (low spacing).
-        offsetX += fontSize * 0.7 * Math.max(1, spacing); 
-      }
+    const draft = draftRef.current;
+    if (!draft) return;
+    const point = getLocalPoint(e);
+    draft.cursor = point;
+
+    if (draft.obstacle.kind === 'circle') {
+        const center = draft.obstacle.points[0];
+        draft.obstacle.radius = Math.hypot(point.x - center.x, point.y - center.y);
+    } else if (draft.obstacle.kind === 'line') {
+        draft.obstacle.points[1] = point;
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (isGrabbingRef.current) {
+        simulation.release();
+        isGrabbingRef.current = false;
+    }
+    fieldDragRef.current = null;
+    // Lines and circles are drag gestures; polylines keep collecting points until finished
+    if (draftRef.current && draftRef.current.obstacle.kind !== 'polyline') commitDraft();
+  };
+
+  const handleDoubleClick = () => {
+    const draft = draftRef.current;
+    if (!draft || draft.obstacle.kind !== 'polyline') return;
+    // The double-click's own mousedowns added points on top of each other; drop the duplicate
+    const points = draft.obstacle.points;
+    points.pop();
+    if (points.length > 2) {
+        const last = points[points.length - 1];
+        const prev = points[points.length - 2];
+        if (Math.hypot(last.x - prev.x, last.y - prev.y) < MIN_OBSTACLE_SIZE) points.pop();
+    }
+    commitDraft();
+  };
+  
+  // Expose methods to parent
+  useImperativeHandle(ref, () => ({
+    clearObstacles: () => {
+      simulation.clearObstacles();
+      draftRef.current = null;
+      selectedObstacleIdRef.current = null;
     },
-    clearWorld: () => {
-      if (!engineRef.current) return;
-      const world = engineRef.current.world;
-      // Remove all bodies that are not walls
-      const bodiesToRemove = world.bodies.filter(b => b.label === 'letter');
-      Matter.World.remove(world, bodiesToRemove);
+    restoreScene: (snapshot: SceneSnapshot) => {
+      draftRef.current = null;
+      selectedObstacleIdRef.current = null;
+      simulation.restoreScene(snapshot);
     },
-    pruneBodies: (maxCount: number) => {
-      if (!engineRef.current) return;
-      const world = engineRef.current.world;
-      // Get all letter bodies that are NOT currently dying
-      const activeBodies = world.bodies.filter(b => b.label === 'letter' && !(b as any).isDying);
-      
-      // If we have too many, mark the oldest ones for death
-      // Matter.js usually adds new bodies to the end of the array, so index 0 is oldest
-      if (activeBodies.length > maxCount) {
-        const countToRemove = activeBodies.length - maxCount;
-        const bodiesToMark = activeBodies.slice(0, countToRemove);
-        
-        bodiesToMark.forEach(body => {
-          (body as any).isDying = true;
-          (body as any).dyingSince = Date.now();
-        });
-      }
+    getLayers: () => {
+      const layers: RecordingLayer[] = [];
+      if (canvasRef.current) layers.push(canvasRef.current);
+      if (rendererRef.current) layers.push(rendererRef.current.element);
+      return layers;
     }
   }));
 
-  // Update engine config when props change
-  useEffect(() => {
-    if (engineRef.current) {
-        engineRef.current.gravity.y = config.gravity;
-
-        const currentEffectiveSize = config.fontSize * config.spacing;
-        const prevEffectiveSize = prevEffectiveSizeRef.current;
-
-        // Check if effective size (font * spacing) changed significantly to trigger scaling
-        if (Math.abs(currentEffectiveSize - prevEffectiveSize) > 0.1) {
-            const scaleFactor = currentEffectiveSize / prevEffectiveSize;
-            
-            engineRef.current.world.bodies.forEach(body => {
-                if (body.label === 'letter') {
-                    Matter.Body.scale(body, scaleFactor, scaleFactor);
-                }
-            });
-            
-            prevEffectiveSizeRef.current = currentEffectiveSize;
-        }
-        
-        // Update existing bodies properties
-        engineRef.current.world.bodies.forEach(body => {
-            if (body.label === 'letter') {
-                body.restitution = config.restitution;
-                body.friction = config.friction;
-            }
-        });
-    }
-  }, [config]);
-
   useEffect(() => {
-    if (!sceneRef.current) return;
-
-    // 1. Setup Matter.js
-    const engine = Matter.Engine.create();
-    const world = engine.world;
-    engineRef.current = engine;
-
-    const initialWidth = sceneRef.current.clientWidth;
-    const initialHeight = sceneRef.current.clientHeight;
-
-    // 2. Setup Render
-    const render = Matter.Render.create({
-      element: sceneRef.current,
-      engine: engine,
-      options: {
-        width: initialWidth,
-        height: initialHeight,
-        wireframes: false,
-        background: 'transparent',
-        pixelRatio: window.devicePixelRatio
-      }
-    });
-    renderRef.current = render;
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    // 1. Canvas. The container, obstacles and force fields are drawn here; the letter
+    // renderer's element sits on top of it.
+    const canvas = document.createElement('canvas');
+    canvas.style.display = 'block';
+    scene.appendChild(canvas);
+    canvasRef.current = canvas;
+    const ctx = canvas.getContext('2d')!;
+    let pixelRatio = 1;
+
+    // Size the canvas for High DPI: internal pixel dimensions (width * ratio) vs display dimensions (style.width)
+    const resizeCanvas = (width: number, height: number) => {
+        pixelRatio = window.devicePixelRatio || 1;
+        canvas.width = width * pixelRatio;
+        canvas.height = height * pixelRatio;
+        canvas.style.width = `${width}px`;
+        canvas.style.height = `${height}px`;
+        rendererRef.current?.resize(width, height, pixelRatio);
+        // Rebuild the walls and pull stray letters back inside
+        simulation.resize(width, height);
+    };
+    resizeCanvas(scene.clientWidth, scene.clientHeight);
 
-    // 3. Create Walls Helper
-    const createWalls = (w: number, h: number) => {
-        const wallThickness = 60;
-        
-        const ground = Matter.Bodies.rectangle(w / 2, h + wallThickness / 2 - 10, w, wallThickness, { 
-            isStatic: true, 
-            render: { fillStyle: 'transparent' },
-            label: 'wall'
-        });
-        const leftWall = Matter.Bodies.rectangle(0 - wallThickness / 2, h / 2, wallThickness, h * 2, { 
-            isStatic: true,
-            render: { fillStyle: 'transparent' },
-            label: 'wall'
-        });
-        const rightWall = Matter.Bodies.rectangle(w + wallThickness / 2, h / 2, wallThickness, h * 2, { 
-            isStatic: true,
-            render: { fillStyle: 'transparent' },
-            label: 'wall'
-        });
+    // 2. Drawing
+    // The container's outline fitted to the canvas, refitted when either changes
+    let containerOutline: { container: Container | null, width: number, height: number, paths: { x: number, y: number }[][] } | null = null;
 
-        Matter.World.add(world, [ground, leftWall, rightWall]);
-    };
-    
-    // Initial create
-    createWalls(initialWidth, initialHeight);
-
-    // 4. Mouse Control
-    const mouse = Matter.Mouse.create(render.canvas);
-    const mouseConstraint = Matter.MouseConstraint.create(engine, {
-      mouse: mouse,
-      constraint: {
-        stiffness: 0.2,
-        render: {
-          visible: false
-        }
-      }
-    });
-    Matter.World.add(world, mouseConstraint);
-    render.mouse = mouse;
-
-    // 5. Collision Events for Audio
-    Matter.Events.on(engine, 'collisionStart', (event) => {
-        const pairs = event.pairs;
-        let collisionOccurred = false;
-
-        for (let i = 0; i < pairs.length; i++) {
-            const bodyA = pairs[i].bodyA as any;
-            const bodyB = pairs[i].bodyB as any;
-
-            // Check if A is a letter and hasn't collided yet
-            if (bodyA.label === 'letter' && !bodyA.hasCollided) {
-                bodyA.hasCollided = true;
-                collisionOccurred = true;
-            }
+    const draw = () => {
+        ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+        ctx.clearRect(0, 0, simulation.width, simulation.height);
+        const currentFontSize = simulation.config.fontSize;
 
-            // Check if B is a letter and hasn't collided yet
-            if (bodyB.label === 'letter' && !bodyB.hasCollided) {
-                bodyB.hasCollided = true;
-                collisionOccurred = true;
-            }
+        const { container } = simulation.config;
+        if (!containerOutline || containerOutline.container !== container || containerOutline.width !== simulation.width || containerOutline.height !== simulation.height) {
+            const paths = container ? fitContainer(container, simulation.width, simulation.height) : [];
+            containerOutline = { container, width: simulation.width, height: simulation.height, paths };
         }
-
-        if (collisionOccurred && onCollisionRef.current) {
-            onCollisionRef.current();
+        drawScenery(ctx, simulation, containerOutline.paths, selectedObstacleIdRef.current, editToolRef.current === 'fields');
+
+        const draft = draftRef.current;
+        if (draft) {
+            const preview = draft.obstacle.kind === 'polyline'
+                ? { ...draft.obstacle, points: [...draft.obstacle.points, draft.cursor] }
+                : draft.obstacle;
+            drawObstacle(ctx, preview, false, true);
         }
-    });
 
-    // 6. Runner
-    const runner = Matter.Runner.create();
-    runnerRef.current = runner;
-    Matter.Runner.run(runner, engine);
-    Matter.Render.run(render);
-
-    // 7. Cleanup Logic (Run before physics update)
-    Matter.Events.on(engine, 'beforeUpdate', () => {
-        const now = Date.now();
-        const bodies = Matter.Composite.allBodies(engine.world);
-        const bodiesToRemove: Matter.Body[] = [];
-
-        bodies.forEach(body => {
-            if ((body as any).isDying) {
-                const elapsed = now - (body as any).dyingSince;
-                if (elapsed >= FADE_DURATION) {
-                    bodiesToRemove.push(body);
-                }
-            }
+        rendererRef.current?.draw({
+            sprites: simulation.getSprites(),
+            fontFamily: simulation.fontFamily,
+            fontSize: currentFontSize,
+            sedimentVersion: simulation.sedimentVersion,
+            look: simulation.config.look,
         });
 
-        if (bodiesToRemove.length > 0) {
-            Matter.World.remove(engine.world, bodiesToRemove);
-        }
-    });
+        drawPendingWord(ctx, simulation);
+    };
 
-    // 8. Custom Rendering Hook for Text
-    Matter.Events.on(render, 'afterRender', () => {
-        const ctx = render.context;
-        const bodies = Matter.Composite.allBodies(engine.world);
-        const now = Date.now();
-        const currentFontSize = configRef.current.fontSize;
-
-        // Use the ref to get the current font family
-        // Note: We render text at fontSize, but the body size is fontSize * spacing.
-        // This allows user to have large text with small hitboxes or vice versa.
-        ctx.font = `bold ${currentFontSize}px ${fontRef.current}`;
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-
-        bodies.forEach(body => {
-            if ((body as any).char) {
-                const isDying = (body as any).isDying;
-                let alpha = 1;
-                let scale = 1;
-
-                if (isDying) {
-                    const elapsed = now - (body as any).dyingSince;
-                    const progress = Math.min(1, elapsed / FADE_DURATION);
-                    alpha = 1 - progress;
-                    // Shrink slightly as it disappears
-                    scale = 1 - (progress * 0.4); 
-                }
-
-                if (alpha <= 0) return; // Don't draw if invisible
-
-                // Draw the letter
-                ctx.save();
-                ctx.translate(body.position.x, body.position.y);
-                ctx.rotate(body.angle);
-                
-                // Apply fade and shrink transforms
-                if (scale !== 1) ctx.scale(scale, scale);
-                ctx.globalAlpha = alpha;
-
-                // Use the specific color stored on the body, or default to dark stone
-                ctx.fillStyle = (body as any).color || '#292524';
-
-                // Artistic touch: Draw a slight shadow for depth
-                ctx.shadowColor = "rgba(0,0,0,0.1)";
-                ctx.shadowBlur = 4;
-                ctx.shadowOffsetX = 2;
-                ctx.shadowOffsetY = 2;
-
-                // Draw text centered at body position. 
-                // The body size might be different (controlled by spacing), but text draws at fontSize.
-                ctx.fillText((body as any).char, 0, 2); 
-                
-                // Debug: Draw bounding box if you want to see the effect of spacing
-                // ctx.strokeStyle = 'red';
-                // ctx.strokeRect(-configRef.current.fontSize * 0.6 * configRef.current.spacing / 2, -configRef.current.fontSize * 0.8 * configRef.current.spacing / 2, configRef.current.fontSize * 0.6 * configRef.current.spacing, configRef.current.fontSize * 0.8 * configRef.current.spacing);
-
-                ctx.restore();
-            }
-        });
+    // 3. Frame loop: run as many fixed steps as the wall clock calls for (up to a cap, so a
+    // stalled tab doesn't fast-forward), whatever the display's refresh rate. Fixed-step takes
+    // replay identically because they type on the simulation clock, not because of how steps
+    // fall into frames; only the offline exporter ties steps to output frames.
+    let lastFrameTime = performance.now();
+    let accumulator = 0;
+    let frameId = requestAnimationFrame(function frame(timestamp: number) {
+        accumulator += timestamp - lastFrameTime;
+        const steps = Math.floor(accumulator / FIXED_DELTA);
+        accumulator -= steps * FIXED_DELTA;
+        if (steps > 0) simulation.step(Math.min(steps, MAX_STEPS_PER_FRAME));
+        lastFrameTime = timestamp;
+
+        draw();
+        frameId = requestAnimationFrame(frame);
     });
 
-    // 9. Resize Handler using ResizeObserver
+    // 4. Resize Handler using ResizeObserver
     // This ensures we capture the correct dimensions after layout changes (fullscreen, window resize)
     const resizeObserver = new ResizeObserver((entries) => {
-        if (!entries.length || !renderRef.current || !engineRef.current) return;
+        if (!entries.length) return;
 
-        const entry = entries[0];
-        const width = entry.contentRect.width;
-        const height = entry.contentRect.height;
-        const pixelRatio = window.devicePixelRatio || 1;
-        
-        const render = renderRef.current;
+        const { width, height } = entries[0].contentRect;
         
         // Optimization: Only resize if dimensions significantly changed or pixelRatio changed
-        const isSizeDifferent = Math.abs((render.options.width || 0) - width) > 1 || Math.abs((render.options.height || 0) - height) > 1;
-        const isDprDifferent = render.options.pixelRatio !== pixelRatio;
-
-        if (!isSizeDifferent && !isDprDifferent) return;
-
-        // Update Canvas and Render sizing correctly for High DPI
-        // We must set internal pixel dimensions (width * ratio) vs display dimensions (style.width)
-        render.canvas.width = width * pixelRatio;
-        render.canvas.height = height * pixelRatio;
-        render.canvas.style.width = `${width}px`;
-        render.canvas.style.height = `${height}px`;
-
-        render.options.width = width;
-        render.options.height = height;
-        render.options.pixelRatio = pixelRatio;
-
-        // Update bounds to match new viewport
-        render.bounds.min.x = 0;
-        render.bounds.min.y = 0;
-        render.bounds.max.x = width;
-        render.bounds.max.y = height;
-
-        // Preserve letters
-        const bodies = Matter.Composite.allBodies(world).filter(b => b.label === 'letter');
-        
-        // Clear world to remove old walls and messy state
-        Matter.World.clear(world, false);
-
-        // Rebuild walls with new dimensions
-        createWalls(width, height);
+        const isSizeDifferent = Math.abs(simulation.width - width) > 1 || Math.abs(simulation.height - height) > 1;
+        const isDprDifferent = pixelRatio !== (window.devicePixelRatio || 1);
 
-        // Add back the letters and mouse constraint
-        Matter.World.add(world, [...bodies, mouseConstraint]);
-        
-        // Push back any letters that might be out of bounds
-        bodies.forEach(b => {
-            // Reposition if outside bounds (allowing for some margin)
-            let newX = b.position.x;
-            let newY = b.position.y;
-            
-            if (newX > width - 20) newX = width - 50;
-            if (newX < 20) newX = 50;
-            // Ensure they don't fall through the new floor immediately
-            if (newY > height - 50) newY = height - 100; 
-            
-            if (newX !== b.position.x || newY !== b.position.y) {
-                Matter.Body.setPosition(b, { x: newX, y: newY });
-                Matter.Sleeping.set(b, false);
-                Matter.Body.setVelocity(b, { x: 0, y: 0 }); // Reset velocity to prevent glitching through walls
-            }
-        });
+        if (isSizeDifferent || isDprDifferent) resizeCanvas(width, height);
     });
 
-    resizeObserver.observe(sceneRef.current);
+    resizeObserver.observe(scene);
 
     if (onReady) onReady();
 
+    // The simulation outlives this view; just detach from it
     return () => {
+      cancelAnimationFrame(frameId);
       resizeObserver.disconnect();
-      Matter.Render.stop(render);
-      Matter.Runner.stop(runner);
-      if (render.canvas) render.canvas.remove();
-      if (engineRef.current) {
-          Matter.World.clear(engineRef.current.world, false);
-          Matter.Engine.clear(engineRef.current);
-      }
+      simulation.release();
+      canvas.remove();
+      canvasRef.current = null;
     };
-  }, []);
+  }, [simulation]);
 
   return (
     <div 
         ref={sceneRef} 
-        className="absolute inset-0 w-full h-full cursor-text z-0"
+        className={`absolute inset-0 w-full h-full z-0 touch-none ${editTool ? 'cursor-crosshair' : 'cursor-text'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
     />
   );
 });
@@ -1,3 +1,5 @@
+import { SoundProfile } from '../types';
+import { SeededRandom } from './randomService';
 
 // Define a standard I-V-vi-IV progression in C Major
 // Values are semitone offsets from Middle C (C4)
@@ -9,9 +11,22 @@ const CHORD_PROGRESSION = [
 ];
 
 const BASE_FREQUENCY = 261.63; // C4
+export const IMPACT_FULL_VOLUME_SPEED = 8; // px per step at which an impact chimes at full volume
+// A settling pile reports hundreds of impacts a second; past this many collision sounds
+// in any COLLISION_WINDOW seconds the rest are dropped, so the voices can't pile up and crackle
+const MAX_COLLISION_VOICES = 4;
+const COLLISION_WINDOW = 0.05;
+
+// Material voices: waveform, octaves above the sound they replace, and decay in seconds
+const SOUND_VOICES: Record<SoundProfile, { type: OscillatorType, octave: number, decay: number }> = {
+  chime: { type: 'sine', octave: 1, decay: 0.4 },
+  thud: { type: 'sine', octave: -2, decay: 0.15 },
+  pluck: { type: 'sawtooth', octave: 0, decay: 0.08 },
+  bell: { type: 'sine', octave: 2, decay: 1.2 },
+};
 
 export class AudioService {
-  private ctx: AudioContext | null = null;
+  private ctx: BaseAudioContext | null = null;
   private isMuted: boolean = false;
   
   private currentChordIndex: number = 0;
@@ -25,13 +40,21 @@ export class AudioService {
   private wetNode: GainNode | null = null;
   private convolver: ConvolverNode | null = null;
 
-  constructor() {
-    // AudioContext is initialized on first user interaction to comply with browser policies
-  }
+  // Randomness for note choice and the reverb noise; seeded via setRandom for reproducible takes
+  private noteRandom: () => number = Math.random;
+  private reverbRandom: () => number = Math.random;
+  // Context time sounds are scheduled at instead of now, when rendering offline
+  private scheduleTime: number | null = null;
+  // Start times of the collision sounds within the last COLLISION_WINDOW
+  private collisionTimes: number[] = [];
+
+  // Plays into `context` when one is given, e.g. an OfflineAudioContext for export. Otherwise
+  // an AudioContext is initialized on first user interaction to comply with browser policies.
+  constructor(private context: BaseAudioContext | null = null) {}
 
   public init() {
     if (!this.ctx) {
-      this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.ctx = this.context ?? new (window.AudioContext || (window as any).webkitAudioContext)();
       
       // Setup Reverb Architecture
       this.dryNode = this.ctx.createGain();
@@ -53,10 +76,24 @@ export class AudioService {
       this.wetNode.connect(this.ctx.destination);
     }
     
-    if (this.ctx.state === 'suspended') {
-      this.ctx.resume();
+    this.resume();
+  }
+
+  // An offline context renders on demand instead, and is never resumed
+  private resume() {
+    if (!this.context && this.ctx?.state === 'suspended') {
+      (this.ctx as AudioContext).resume();
     }
   }
+
+  // Sounds that follow start `time` seconds into the context's clock; null plays them now
+  public setScheduleTime(time: number | null) {
+    this.scheduleTime = time;
+  }
+
+  private get now(): number {
+    return this.scheduleTime ?? this.ctx!.currentTime;
+  }
   
   private createImpulseResponse(duration: number, decay: number): AudioBuffer {
     const sampleRate = this.ctx!.sampleRate;
@@ -68,7 +105,7 @@ export class AudioService {
     for (let i = 0; i < length; i++) {
         const n = i / length;
         // Generate white noise
-        const noise = (Math.random() * 2 - 1);
+        const noise = (this.reverbRandom() * 2 - 1);
         // Apply exponential decay envelope
         const envelope = Math.pow(1 - n, decay);
         
@@ -78,11 +115,42 @@ export class AudioService {
     return impulse;
   }
 
+  // Switches to seeded streams forked from the shared generator and rewinds the progression.
+  // The reverb impulse is rebuilt so its noise matches a fresh session with this seed.
+  public setRandom(random: SeededRandom) {
+    const notes = random.fork('audio');
+    const reverb = random.fork('reverb');
+    this.noteRandom = () => notes.next();
+    this.reverbRandom = () => reverb.next();
+
+    // Start the harmony from the top so the same seed always plays the same tune
+    this.currentChordIndex = 0;
+    this.arpeggioIndex = 0;
+    this.isArpeggioAscending = true;
+
+    if (this.convolver) {
+      this.convolver.buffer = this.createImpulseResponse(3.0, 2.0);
+    }
+  }
+
+  // Taps the dry/wet mix into a MediaStream for recording; it keeps playing out loud too.
+  // Disconnect the tap with removeRecordingTap when the recording ends.
+  public createRecordingTap(): MediaStreamAudioDestinationNode {
+    this.init();
+    const tap = (this.ctx as AudioContext).createMediaStreamDestination();
+    this.dryNode!.connect(tap);
+    this.wetNode!.connect(tap);
+    return tap;
+  }
+
+  public removeRecordingTap(tap: MediaStreamAudioDestinationNode) {
+    this.dryNode?.disconnect(tap);
+    this.wetNode?.disconnect(tap);
+  }
+
   public setMuted(muted: boolean) {
     this.isMuted = muted;
-    if (!muted && this.ctx?.state === 'suspended') {
-        this.ctx.resume();
-    }
+    if (!muted) this.resume();
   }
 
   // Advances to the next chord in the progression
@@ -101,7 +169,8 @@ export class AudioService {
     return BASE_FREQUENCY * Math.pow(2, totalSemitones / 12);
   }
 
-  public playTypingSound() {
+  // `profile` swaps the default triangle note for a material's voice
+  public playTypingSound(profile?: SoundProfile) {
     if (this.isMuted || !this.ctx) return;
     
     // Ensure reverb is ready, or init if somehow missed
@@ -144,32 +213,40 @@ export class AudioService {
     gainNode.connect(this.convolver!);
 
     // Typing: Triangle wave for clarity
-    osc.type = 'triangle';
+    const voice = profile ? SOUND_VOICES[profile] : null;
+    osc.type = voice ? voice.type : 'triangle';
     
     // Use the determined semitone. 
     // Randomly shift down an octave occasionally for depth, but keep melody clear
-    const octave = Math.random() > 0.8 ? -1 : 0;
-    const freq = this.getNoteFrequency(semitone, octave); 
+    const octave = this.noteRandom() > 0.8 ? -1 : 0;
+    const freq = this.getNoteFrequency(semitone, octave + (voice ? voice.octave : 0)); 
     
-    osc.frequency.setValueAtTime(freq, this.ctx.currentTime);
+    osc.frequency.setValueAtTime(freq, this.now);
 
     // Envelope
-    const now = this.ctx.currentTime;
+    const now = this.now;
+    const decay = voice ? voice.decay : 0.4; // Medium decay
     gainNode.gain.setValueAtTime(0, now);
     gainNode.gain.linearRampToValueAtTime(0.15, now + 0.01); // Quick attack
-    gainNode.gain.exponentialRampToValueAtTime(0.001, now + 0.4); // Medium decay
+    gainNode.gain.exponentialRampToValueAtTime(0.001, now + decay);
 
     osc.start(now);
-    osc.stop(now + 0.5);
+    osc.stop(now + decay + 0.1);
   }
 
-  public playCollisionSound() {
+  // `intensity` (0-1) scales the volume with how hard the letter hit
+  public playCollisionSound(profile?: SoundProfile, intensity: number = 1) {
     if (this.isMuted || !this.ctx) return;
     if (!this.dryNode || !this.convolver) return;
 
+    const start = this.now;
+    this.collisionTimes = this.collisionTimes.filter(time => start - time < COLLISION_WINDOW);
+    if (this.collisionTimes.length >= MAX_COLLISION_VOICES) return;
+    this.collisionTimes.push(start);
+
     const currentChord = CHORD_PROGRESSION[this.currentChordIndex];
     // For collision, pick a random note from the chord to avoid locking to the typing arpeggio
-    const semitone = currentChord[Math.floor(Math.random() * currentChord.length)];
+    const semitone = currentChord[Math.floor(this.noteRandom() * currentChord.length)];
 
     const osc = this.ctx.createOscillator();
     const gainNode = this.ctx.createGain();
@@ -179,20 +256,22 @@ export class AudioService {
     gainNode.connect(this.dryNode!);
     gainNode.connect(this.convolver!);
 
-    // Collision: Sine wave for "glassy" sound
-    osc.type = 'sine';
+    // Collision: Sine wave for "glassy" sound, unless the letter's material has a voice
+    const voice = profile ? SOUND_VOICES[profile] : null;
+    osc.type = voice ? voice.type : 'sine';
     // Shift up 1 octave for the chime effect
-    const freq = this.getNoteFrequency(semitone, 1); 
-    osc.frequency.setValueAtTime(freq, this.ctx.currentTime);
+    const freq = this.getNoteFrequency(semitone, 1 + (voice ? voice.octave : 0)); 
+    osc.frequency.setValueAtTime(freq, this.now);
 
     // Envelope - very short and delicate
-    const now = this.ctx.currentTime;
+    const now = this.now;
+    const decay = voice ? voice.decay / 2 : 0.2; // Fast decay
     gainNode.gain.setValueAtTime(0, now);
     // Reduced volume by 50% (0.05 -> 0.01)
-    gainNode.gain.linearRampToValueAtTime(0.01, now + 0.005); // Very fast attack
-    gainNode.gain.exponentialRampToValueAtTime(0.001, now + 0.2); // Fast decay
+    gainNode.gain.linearRampToValueAtTime(Math.max(0.002, 0.01 * intensity), now + 0.005); // Very fast attack
+    gainNode.gain.exponentialRampToValueAtTime(0.001, now + decay);
 
     osc.start(now);
-    osc.stop(now + 0.3);
+    osc.stop(now + decay + 0.1);
   }
 }
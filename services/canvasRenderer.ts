@@ -0,0 +1,267 @@
+import { LetterLook } from '../types';
+import { drawJellySprite } from './jellyService';
+import { getLookKey } from './lookService';
+import { DEFAULT_LETTER_COLOR, getFadeStyle, getLetterFont, getSpriteAngle, GLYPH_BASELINE_SHIFT, LETTER_SHADOW, RenderFrame, Renderer } from './rendererService';
+import type { LetterSprite } from './simulationService';
+
+// Ink: a letter that moves less than this (px per frame) has come to rest and stamps a mark,
+// once per spot; it stamps again after moving on by more than the bleed
+const INK_REST_SPEED = 0.5;
+
+/**
+ * The original Canvas2D path: every letter is filled with its shadow each frame.
+ * Letters in the sediment heap don't move, so they're drawn once into a layer of
+ * their own and blitted until the heap changes. Trails and ink marks build up in
+ * layers of their own under the letters.
+ */
+export class CanvasRenderer implements Renderer {
+  public readonly kind = 'canvas';
+  public readonly element: HTMLCanvasElement;
+
+  private ctx: CanvasRenderingContext2D;
+  private width = 0;
+  private height = 0;
+  private pixelRatio = 1;
+  private sedimentLayer = document.createElement('canvas');
+  private sedimentCtx: CanvasRenderingContext2D;
+  private sedimentKey = '';
+
+  // Afterimages of moving letters, faded a little every frame
+  private trailLayer = document.createElement('canvas');
+  private trailCtx: CanvasRenderingContext2D;
+  private frameCount = 0;
+  // Marks left where letters came to rest, with the last position of each letter and
+  // where it last stamped
+  private inkLayer = document.createElement('canvas');
+  private inkCtx: CanvasRenderingContext2D;
+  private inkTracks = new Map<number, { x: number, y: number, stamp?: { x: number, y: number } }>();
+  private layerKey = '';
+
+  constructor() {
+    this.element = document.createElement('canvas');
+    this.ctx = this.element.getContext('2d')!;
+    this.sedimentCtx = this.sedimentLayer.getContext('2d')!;
+    this.trailCtx = this.trailLayer.getContext('2d')!;
+    this.inkCtx = this.inkLayer.getContext('2d')!;
+  }
+
+  // Size the canvas for High DPI: internal pixel dimensions (width * ratio) vs display dimensions (style.width)
+  public resize(width: number, height: number, pixelRatio: number) {
+    this.width = width;
+    this.height = height;
+    this.pixelRatio = pixelRatio;
+    this.element.width = width * pixelRatio;
+    this.element.height = height * pixelRatio;
+    this.element.style.width = `${width}px`;
+    this.element.style.height = `${height}px`;
+  }
+
+  public draw(frame: RenderFrame) {
+    const ctx = this.ctx;
+    ctx.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, this.width, this.height);
+    this.prepareLayers(frame);
+
+    const { look } = frame;
+    if (look.style === 'ink') {
+        this.drawInk(frame);
+        ctx.drawImage(this.inkLayer, 0, 0, this.width, this.height);
+    }
+
+    this.drawSediment(frame, frame.sprites.filter(sprite => sprite.settled));
+    ctx.drawImage(this.sedimentLayer, 0, 0, this.width, this.height);
+
+    const moving = frame.sprites.filter(sprite => !sprite.settled);
+    if (look.style === 'trails') {
+        this.drawTrails(frame, moving);
+        ctx.drawImage(this.trailLayer, 0, 0, this.width, this.height);
+    }
+
+    this.setTextStyle(ctx, frame);
+    moving.forEach(sprite => this.drawSprite(ctx, sprite, look));
+  }
+
+  public destroy() {
+    [this.sedimentLayer, this.trailLayer, this.inkLayer].forEach(layer => {
+        layer.width = 0;
+        layer.height = 0;
+    });
+  }
+
+  private setTextStyle(target: CanvasRenderingContext2D, frame: RenderFrame) {
+    // Note: We render text at fontSize, but the body size is fontSize * spacing.
+    // This allows user to have large text with small hitboxes or vice versa.
+    target.font = getLetterFont(frame.fontSize, frame.fontFamily);
+    target.textAlign = 'center';
+    target.textBaseline = 'middle';
+  }
+
+  // Trails and ink start over when the look, font or canvas changes, and when the
+  // letters are cleared
+  private prepareLayers(frame: RenderFrame) {
+    const key = `${getLookKey(frame.look)}|${frame.fontFamily}|${frame.fontSize}|${this.element.width}x${this.element.height}`;
+    if (key === this.layerKey && (frame.sprites.length > 0 || this.inkTracks.size === 0)) return;
+    this.layerKey = key;
+    this.inkTracks.clear();
+    [this.trailLayer, this.inkLayer].forEach(layer => {
+        layer.width = this.element.width;
+        layer.height = this.element.height;
+    });
+    this.trailCtx.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+    this.inkCtx.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+  }
+
+  private drawSprite(target: CanvasRenderingContext2D, sprite: LetterSprite, look: LetterLook) {
+    const { alpha, scale } = getFadeStyle(sprite);
+    if (alpha <= 0) return; // Don't draw if invisible
+
+    // Use the specific color stored on the body, or default to dark stone
+    const color = sprite.color || DEFAULT_LETTER_COLOR;
+
+    // Jelly letters warp their glyph, painted once in the look, over the mesh instead
+    if (sprite.mesh && sprite.meshRest) {
+        drawJellySprite(target, sprite, target.font, this.pixelRatio, {
+            key: getLookKey(look),
+            paint: ctx => this.paintGlyphs(ctx, sprite, look, color, 1),
+        });
+        return;
+    }
+
+    // Draw the letter
+    target.save();
+    target.translate(sprite.x, sprite.y);
+    target.rotate(sprite.angle);
+
+    // Apply fade and shrink transforms
+    if (scale !== 1) target.scale(scale, scale);
+    this.paintGlyphs(target, sprite, look, color, alpha);
+    target.restore();
+  }
+
+  // Fills the sprite's glyphs in the look, in the letter's own frame
+  private paintGlyphs(target: CanvasRenderingContext2D, sprite: LetterSprite, look: LetterLook, color: string, alpha: number) {
+    target.save();
+    target.globalAlpha = alpha;
+    target.fillStyle = color;
+
+    // Draw text centered on the glyph (offset from the center of mass for compound bodies).
+    // The body size might be different (controlled by spacing), but text draws at fontSize.
+    // Whole-word bodies carry one offset per character in the word's frame.
+    if (sprite.clip) {
+        // A shard shows just its piece of the glyph
+        target.beginPath();
+        target.rect(-sprite.clip.width / 2, -sprite.clip.height / 2, sprite.clip.width, sprite.clip.height);
+        target.clip();
+    }
+    const fillGlyphs = () => sprite.glyphs.forEach(glyph => {
+        target.fillText(glyph.char, glyph.offset.x, glyph.offset.y + GLYPH_BASELINE_SHIFT);
+    });
+
+    // Shadow offsets ignore the transform, so they stay screen-aligned however the letter turns
+    if (look.style === 'glow') {
+        // Each pass brightens the halo; the letter's own color lights it
+        target.shadowColor = color;
+        target.shadowBlur = look.size;
+        const passes = 1 + Math.round(look.intensity * 3);
+        for (let i = 0; i < passes; i++) fillGlyphs();
+    } else if (look.style === 'outline') {
+        target.globalAlpha = alpha * look.intensity;
+        if (look.intensity > 0) fillGlyphs();
+        target.globalAlpha = alpha;
+        target.strokeStyle = color;
+        target.lineWidth = look.size;
+        target.lineJoin = 'round';
+        sprite.glyphs.forEach(glyph => {
+            target.strokeText(glyph.char, glyph.offset.x, glyph.offset.y + GLYPH_BASELINE_SHIFT);
+        });
+    } else if (look.style === 'letterpress') {
+        // A light edge below and a dark one above read as pressed into the page
+        target.shadowColor = `rgba(255,255,255,${look.intensity})`;
+        target.shadowOffsetY = look.size;
+        fillGlyphs();
+        target.shadowColor = `rgba(0,0,0,${look.intensity * 0.5})`;
+        target.shadowOffsetY = -look.size / 2;
+        fillGlyphs();
+    } else {
+        // Artistic touch: Draw a slight shadow for depth. The plain look sets its strength;
+        // the others keep the default.
+        const isPlain = look.style === 'plain';
+        target.shadowColor = isPlain ? `rgba(0,0,0,${look.intensity * 0.2})` : LETTER_SHADOW.color;
+        target.shadowBlur = isPlain ? look.size : LETTER_SHADOW.blur;
+        target.shadowOffsetX = LETTER_SHADOW.offsetX;
+        target.shadowOffsetY = LETTER_SHADOW.offsetY;
+        fillGlyphs();
+    }
+
+    target.restore();
+  }
+
+  private drawSediment(frame: RenderFrame, sprites: LetterSprite[]) {
+    const key = `${frame.sedimentVersion}|${frame.fontFamily}|${frame.fontSize}|${getLookKey(frame.look)}|${this.element.width}x${this.element.height}`;
+    if (key === this.sedimentKey) return;
+    this.sedimentKey = key;
+
+    this.sedimentLayer.width = this.element.width;
+    this.sedimentLayer.height = this.element.height;
+    this.sedimentCtx.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+    this.setTextStyle(this.sedimentCtx, frame);
+    sprites.forEach(sprite => this.drawSprite(this.sedimentCtx, sprite, frame.look));
+  }
+
+  // Fades the trail layer a step, then adds this frame's moving letters to it. With a gap
+  // of more than one frame, only every gap-th frame is added, leaving separate afterimages.
+  private drawTrails(frame: RenderFrame, sprites: LetterSprite[]) {
+    const trail = this.trailCtx;
+    const { intensity, size } = frame.look;
+    // Persistence 0 clears each frame; 1 keeps about a second of afterimages
+    const keep = 0.5 + intensity * 0.47;
+    trail.save();
+    trail.globalCompositeOperation = 'destination-out';
+    trail.fillStyle = `rgba(0,0,0,${1 - keep})`;
+    trail.fillRect(0, 0, this.width, this.height);
+    trail.restore();
+
+    this.frameCount++;
+    if (this.frameCount % Math.max(1, Math.round(size)) !== 0) return;
+    this.setTextStyle(trail, frame);
+    sprites.forEach(sprite => this.drawSprite(trail, sprite, { ...frame.look, style: 'plain', intensity: 0 }));
+  }
+
+  // Stamps a blurred copy of every letter that has come to rest into the ink layer, which
+  // keeps the marks after the letters move on or fade away
+  private drawInk(frame: RenderFrame) {
+    const ink = this.inkCtx;
+    const { intensity, size } = frame.look;
+    const seen = new Set<number>();
+    this.setTextStyle(ink, frame);
+
+    frame.sprites.forEach(sprite => {
+        seen.add(sprite.id);
+        const track = this.inkTracks.get(sprite.id);
+        this.inkTracks.set(sprite.id, { x: sprite.x, y: sprite.y, stamp: track?.stamp });
+        if (!track || sprite.fade > 0) return;
+
+        const isResting = Math.hypot(sprite.x - track.x, sprite.y - track.y) < INK_REST_SPEED;
+        const isNewSpot = !track.stamp || Math.hypot(sprite.x - track.stamp.x, sprite.y - track.stamp.y) > size;
+        if (!isResting || !isNewSpot) return;
+
+        this.inkTracks.get(sprite.id)!.stamp = { x: sprite.x, y: sprite.y };
+        const color = sprite.color || DEFAULT_LETTER_COLOR;
+        ink.save();
+        ink.translate(sprite.x, sprite.y);
+        ink.rotate(getSpriteAngle(sprite));
+        ink.globalAlpha = intensity * 0.3;
+        ink.fillStyle = color;
+        ink.shadowColor = color;
+        ink.shadowBlur = size;
+        sprite.glyphs.forEach(glyph => {
+            ink.fillText(glyph.char, glyph.offset.x, glyph.offset.y + GLYPH_BASELINE_SHIFT);
+        });
+        ink.restore();
+    });
+
+    this.inkTracks.forEach((_, id) => {
+        if (!seen.has(id)) this.inkTracks.delete(id);
+    });
+  }
+}
@@ -0,0 +1,491 @@
+import Matter from 'matter-js';
+import { BoundaryConfig, Container } from '../types';
+
+type Point = { x: number, y: number };
+
+export type ContainerPreset = 'jar' | 'funnel' | 'heart';
+
+const CONTAINER_THICKNESS = 12;
+const FIT_MARGIN = 0.04; // of the viewport kept clear around the shape
+const FIT_TOP = 0.25; // of the viewport kept clear above it, where typed letters drop from
+const MOUTH_DEPTH = 0.1; // of a closed outline's height cut off its top when `openTop` is set
+const CURVE_STEPS = 12; // line segments per curve command
+const TEXT_RASTER_SIZE = 160; // px font size titles are traced at
+const TEXT_CELL = 4; // px grid the title's ink is traced on
+
+// Outlines in a 100-unit box; open paths are left open, so the jar and funnel need no mouth
+export const CONTAINER_PRESETS: Record<ContainerPreset, { name: string, d: string }> = {
+  jar: { name: 'Jar', d: 'M 30 0 L 30 12 Q 10 20 10 45 L 10 90 Q 10 100 20 100 L 80 100 Q 90 100 90 90 L 90 45 Q 90 20 70 12 L 70 0' },
+  funnel: { name: 'Funnel', d: 'M 0 0 L 42 60 L 42 100 M 100 0 L 58 60 L 58 100' },
+  heart: { name: 'Heart', d: 'M 50 30 C 50 10 20 0 8 18 C -5 38 15 65 50 95 C 85 65 105 38 92 18 C 80 0 50 10 50 30 Z' },
+};
+
+const isClosed = (path: Point[]): boolean => {
+  const first = path[0];
+  const last = path[path.length - 1];
+  return path.length > 2 && Math.hypot(first.x - last.x, first.y - last.y) < 1e-6;
+};
+
+// Points along an elliptical arc, per the endpoint parameterization in the SVG spec
+const flattenArc = (from: Point, rx: number, ry: number, rotation: number, largeArc: boolean, sweep: boolean, to: Point): Point[] => {
+  if (rx === 0 || ry === 0) return [to];
+  const phi = rotation * Math.PI / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = factor * (rx * y1) / ry;
+  const cy1 = factor * -(ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+
+  return Array.from({ length: CURVE_STEPS }, (_, i) => {
+    const t = start + delta * (i + 1) / CURVE_STEPS;
+    const ex = rx * Math.cos(t);
+    const ey = ry * Math.sin(t);
+    return { x: cos * ex - sin * ey + cx, y: sin * ex + cos * ey + cy };
+  });
+};
+
+/**
+ * Flattens SVG path data into polylines, one per subpath. Curves and arcs become
+ * CURVE_STEPS segments each; closed subpaths end on their first point.
+ */
+export const flattenSvgPath = (d: string): Point[][] => {
+  const paths: Point[][] = [];
+  let current: Point[] = [];
+  let position: Point = { x: 0, y: 0 };
+  let start: Point = { x: 0, y: 0 };
+  // Second control point of the last curve, reflected by S and T
+  let lastControl: Point | null = null;
+  let index = 0;
+
+  const skipSeparators = () => {
+    while (index < d.length && /[\s,]/.test(d[index])) index++;
+  };
+  const readNumber = (): number => {
+    skipSeparators();
+    const match = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(d.slice(index));
+    if (!match) throw new Error(`Bad number in path data at ${index}`);
+    index += match[0].length;
+    return parseFloat(match[0]);
+  };
+  // Arc flags may be written without separators, as in "a1 1 0 011 1"
+  const readFlag = (): boolean => {
+    skipSeparators();
+    const flag = d[index++];
+    if (flag !== '0' && flag !== '1') throw new Error(`Bad arc flag in path data at ${index - 1}`);
+    return flag === '1';
+  };
+
+  const finish = () => {
+    if (current.length > 1) paths.push(current);
+    current = [];
+  };
+  const lineTo = (point: Point) => {
+    if (current.length === 0) current.push(position);
+    current.push(point);
+    position = point;
+  };
+  const curveTo = (c1: Point, c2: Point, end: Point) => {
+    const from = position;
+    for (let i = 1; i <= CURVE_STEPS; i++) {
+      const t = i / CURVE_STEPS;
+      const u = 1 - t;
+      lineTo({
+        x: u * u * u * from.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * end.x,
+        y: u * u * u * from.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * end.y,
+      });
+    }
+    lastControl = c2;
+  };
+  const quadTo = (control: Point, end: Point) => {
+    const from = position;
+    for (let i = 1; i <= CURVE_STEPS; i++) {
+      const t = i / CURVE_STEPS;
+      const u = 1 - t;
+      lineTo({
+        x: u * u * from.x + 2 * u * t * control.x + t * t * end.x,
+        y: u * u * from.y + 2 * u * t * control.y + t * t * end.y,
+      });
+    }
+    lastControl = control;
+  };
+  const reflect = (): Point => lastControl
+    ? { x: 2 * position.x - lastControl.x, y: 2 * position.y - lastControl.y }
+    : position;
+
+  let command = '';
+  while (true) {
+    skipSeparators();
+    if (index >= d.length) break;
+    if (/[a-zA-Z]/.test(d[index])) {
+      command = d[index++];
+    } else if (!command) {
+      throw new Error(`Expected a path command at ${index}`);
+    }
+
+    const relative = command === command.toLowerCase();
+    const point = (x: number, y: number): Point => relative ? { x: position.x + x, y: position.y + y } : { x, y };
+    const previousControl = lastControl;
+    lastControl = null;
+
+    switch (command.toUpperCase()) {
+      case 'M': {
+        finish();
+        position = point(readNumber(), readNumber());
+        start = position;
+        // Coordinates after a moveto are implicit linetos
+        command = relative ? 'l' : 'L';
+        break;
+      }
+      case 'L': lineTo(point(readNumber(), readNumber())); break;
+      case 'H': {
+        const x = readNumber();
+        lineTo({ x: relative ? position.x + x : x, y: position.y });
+        break;
+      }
+      case 'V': {
+        const y = readNumber();
+        lineTo({ x: position.x, y: relative ? position.y + y : y });
+        break;
+      }
+      case 'C': {
+        const c1 = point(readNumber(), readNumber());
+        const c2 = point(readNumber(), readNumber());
+        curveTo(c1, c2, point(readNumber(), readNumber()));
+        break;
+      }
+      case 'S': {
+        lastControl = previousControl;
+        const c1 = reflect();
+        const c2 = point(readNumber(), readNumber());
+        curveTo(c1, c2, point(readNumber(), readNumber()));
+        break;
+      }
+      case 'Q': {
+        const control = point(readNumber(), readNumber());
+        quadTo(control, point(readNumber(), readNumber()));
+        break;
+      }
+      case 'T': {
+        lastControl = previousControl;
+        quadTo(reflect(), point(readNumber(), readNumber()));
+        break;
+      }
+      case 'A': {
+        const rx = readNumber();
+        const ry = readNumber();
+        const rotation = readNumber();
+        const largeArc = readFlag();
+        const sweep = readFlag();
+        const end = point(readNumber(), readNumber());
+        flattenArc(position, rx, ry, rotation, largeArc, sweep, end).forEach(lineTo);
+        break;
+      }
+      case 'Z': {
+        if (current.length > 0) lineTo(start);
+        finish();
+        position = start;
+        // Z takes no numbers, so another command must follow
+        command = '';
+        break;
+      }
+      default:
+        throw new Error(`Unsupported path command "${command}"`);
+    }
+  }
+  finish();
+  return paths;
+};
+
+// Points of a closed ellipse, for <circle> and <ellipse>
+const ellipsePath = (cx: number, cy: number, rx: number, ry: number): Point[] =>
+  Array.from({ length: CURVE_STEPS * 2 + 1 }, (_, i) => {
+    const t = (i / (CURVE_STEPS * 2)) * Math.PI * 2;
+    return { x: cx + Math.cos(t) * rx, y: cy + Math.sin(t) * ry };
+  });
+
+/**
+ * Builds a container from the shapes in an SVG document: paths, polygons, polylines,
+ * lines, rects, circles and ellipses. Transforms are ignored, so the outline should be
+ * drawn in one coordinate space. Throws if the file has none of these.
+ */
+export const parseSvgContainer = (svg: string, name: string): Container => {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  if (doc.querySelector('parsererror')) throw new Error('Not a valid SVG file');
+
+  const number = (element: Element, attribute: string) => parseFloat(element.getAttribute(attribute) || '0') || 0;
+  const pointList = (element: Element): Point[] => {
+    const values = (element.getAttribute('points') || '').trim().split(/[\s,]+/).map(parseFloat);
+    const points: Point[] = [];
+    for (let i = 0; i + 1 < values.length; i += 2) points.push({ x: values[i], y: values[i + 1] });
+    return points;
+  };
+
+  const paths: Point[][] = [];
+  doc.querySelectorAll('path, polygon, polyline, line, rect, circle, ellipse').forEach(element => {
+    switch (element.tagName.toLowerCase()) {
+      case 'path':
+        paths.push(...flattenSvgPath(element.getAttribute('d') || ''));
+        break;
+      case 'polygon': {
+        const points = pointList(element);
+        if (points.length > 1) paths.push([...points, points[0]]);
+        break;
+      }
+      case 'polyline':
+        paths.push(pointList(element));
+        break;
+      case 'line':
+        paths.push([{ x: number(element, 'x1'), y: number(element, 'y1') }, { x: number(element, 'x2'), y: number(element, 'y2') }]);
+        break;
+      case 'rect': {
+        const x = number(element, 'x');
+        const y = number(element, 'y');
+        const width = number(element, 'width');
+        const height = number(element, 'height');
+        paths.push([{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }, { x, y }]);
+        break;
+      }
+      case 'circle':
+        paths.push(ellipsePath(number(element, 'cx'), number(element, 'cy'), number(element, 'r'), number(element, 'r')));
+        break;
+      case 'ellipse':
+        paths.push(ellipsePath(number(element, 'cx'), number(element, 'cy'), number(element, 'rx'), number(element, 'ry')));
+        break;
+    }
+  });
+
+  const usable = paths.filter(path => path.length > 1);
+  if (usable.length === 0) throw new Error('No shapes found in SVG');
+  return { name, paths: usable, openTop: true };
+};
+
+export const createPresetContainer = (preset: ContainerPreset): Container => ({
+  name: CONTAINER_PRESETS[preset].name,
+  paths: flattenSvgPath(CONTAINER_PRESETS[preset].d),
+  openTop: true,
+});
+
+// Douglas-Peucker: drops points that stray less than `tolerance` from the line they sit on
+const simplify = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 3) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const length = Math.hypot(last.x - first.x, last.y - first.y) || 1;
+
+  let farthest = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const p = points[i];
+    const distance = Math.abs((last.x - first.x) * (first.y - p.y) - (first.x - p.x) * (last.y - first.y)) / length;
+    if (distance > farthest) {
+      farthest = distance;
+      index = i;
+    }
+  }
+  if (farthest <= tolerance) return [first, last];
+  return [...simplify(points.slice(0, index + 1), tolerance).slice(0, -1), ...simplify(points.slice(index), tolerance)];
+};
+
+/**
+ * Outlines `text` as drawn in bold `fontFamily`: the inked cells of a raster become
+ * closed loops around each glyph (and its counters), smoothed with Douglas-Peucker.
+ * Returns null without a DOM or when the text has no ink.
+ */
+export const createTextContainer = (text: string, fontFamily: string): Container | null => {
+  if (typeof document === 'undefined' || !text.trim()) return null;
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  const font = `bold ${TEXT_RASTER_SIZE}px ${fontFamily}`;
+  ctx.font = font;
+  const pad = TEXT_CELL * 2;
+  canvas.width = Math.ceil(ctx.measureText(text).width) + pad * 2;
+  canvas.height = Math.ceil(TEXT_RASTER_SIZE * 1.4) + pad * 2;
+  ctx.font = font;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, pad, canvas.height / 2);
+
+  const alpha = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  const cols = Math.floor(canvas.width / TEXT_CELL);
+  const rows = Math.floor(canvas.height / TEXT_CELL);
+  const isSolid = (col: number, row: number) => {
+    if (col < 0 || row < 0 || col >= cols || row >= rows) return false;
+    const x = Math.floor((col + 0.5) * TEXT_CELL);
+    const y = Math.floor((row + 0.5) * TEXT_CELL);
+    return alpha[(y * canvas.width + x) * 4 + 3] > 128;
+  };
+
+  // Cell edges between ink and paper, turning clockwise around the ink, keyed by start corner
+  const edges = new Map<string, string[]>();
+  const addEdge = (x0: number, y0: number, x1: number, y1: number) => {
+    const key = `${x0},${y0}`;
+    edges.set(key, [...(edges.get(key) || []), `${x1},${y1}`]);
+  };
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (!isSolid(col, row)) continue;
+      if (!isSolid(col, row - 1)) addEdge(col, row, col + 1, row);
+      if (!isSolid(col + 1, row)) addEdge(col + 1, row, col + 1, row + 1);
+      if (!isSolid(col, row + 1)) addEdge(col + 1, row + 1, col, row + 1);
+      if (!isSolid(col - 1, row)) addEdge(col, row + 1, col, row);
+    }
+  }
+
+  // Chain the edges into loops
+  const paths: Point[][] = [];
+  const toPoint = (key: string): Point => {
+    const [col, row] = key.split(',').map(Number);
+    return { x: col * TEXT_CELL, y: row * TEXT_CELL };
+  };
+  Array.from<string>(edges.keys()).forEach(startKey => {
+    while ((edges.get(startKey) || []).length > 0) {
+      const loop = [toPoint(startKey)];
+      let key = startKey;
+      do {
+        const next = edges.get(key)!;
+        const to = next.pop()!;
+        loop.push(toPoint(to));
+        key = to;
+      } while (key !== startKey && (edges.get(key) || []).length > 0);
+      if (loop.length > 3) paths.push(simplify(loop, TEXT_CELL * 0.75));
+    }
+  });
+
+  if (paths.length === 0) return null;
+  return { name: text, paths, openTop: true };
+};
+
+// Even-odd test against a closed outline
+const isInside = (point: Point, path: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = path.length - 1; i < path.length; j = i++) {
+    const a = path[i];
+    const b = path[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Splits a polyline into the runs lying at or below `cutY`
+const clipBelow = (path: Point[], cutY: number): Point[][] => {
+  const runs: Point[][] = [];
+  let run: Point[] = [];
+  path.forEach((point, i) => {
+    const previous = path[i - 1];
+    if (previous && (previous.y < cutY) !== (point.y < cutY)) {
+      const t = (cutY - previous.y) / (point.y - previous.y);
+      const crossing = { x: previous.x + (point.x - previous.x) * t, y: cutY };
+      if (point.y < cutY) {
+        run.push(crossing);
+        runs.push(run);
+        run = [];
+      } else {
+        run.push(crossing);
+      }
+    }
+    if (point.y >= cutY) run.push(point);
+  });
+  runs.push(run);
+  return runs.filter(r => r.length > 1);
+};
+
+/**
+ * Scales a container's outline to fit a width x height viewport, keeping its aspect
+ * ratio: centered across, and sitting low enough that typed letters drop in from above.
+ * With `openTop` it cuts a mouth into the top of every closed outline that isn't a hole
+ * in another, so letters can fall in.
+ */
+export const fitContainer = (container: Container, width: number, height: number): Point[][] => {
+  const all = container.paths.flat();
+  if (all.length === 0) return [];
+  const minX = Math.min(...all.map(p => p.x));
+  const maxX = Math.max(...all.map(p => p.x));
+  const minY = Math.min(...all.map(p => p.y));
+  const maxY = Math.max(...all.map(p => p.y));
+  const scale = Math.min(
+    (width * (1 - FIT_MARGIN * 2)) / Math.max(1e-6, maxX - minX),
+    (height * (1 - FIT_TOP - FIT_MARGIN)) / Math.max(1e-6, maxY - minY)
+  );
+  const offsetX = (width - (maxX - minX) * scale) / 2;
+  const offsetY = height * (1 - FIT_MARGIN) - (maxY - minY) * scale;
+  const fitted = container.paths.map(path => path.map(p => ({
+    x: offsetX + (p.x - minX) * scale,
+    y: offsetY + (p.y - minY) * scale,
+  })));
+
+  if (!container.openTop) return fitted;
+  return fitted.flatMap((path, i) => {
+    const isHole = fitted.some((other, j) => j !== i && isClosed(other) && isInside(path[0], other));
+    if (!isClosed(path) || isHole) return [path];
+    const top = Math.min(...path.map(p => p.y));
+    const bottom = Math.max(...path.map(p => p.y));
+    return clipBelow(path, top + (bottom - top) * MOUTH_DEPTH);
+  });
+};
+
+/**
+ * Builds the static bodies holding letters inside a container: one rounded bar per
+ * segment of the fitted outline. They bounce and grip like the floor.
+ */
+export const createContainerBodies = (container: Container | null, width: number, height: number, floor: BoundaryConfig): Matter.Body[] => {
+  if (!container) return [];
+  const bodies: Matter.Body[] = [];
+  fitContainer(container, width, height).forEach(path => {
+    for (let i = 1; i < path.length; i++) {
+      const a = path[i - 1];
+      const b = path[i];
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      if (length < 1) continue;
+      bodies.push(Matter.Bodies.rectangle((a.x + b.x) / 2, (a.y + b.y) / 2, length + CONTAINER_THICKNESS, CONTAINER_THICKNESS, {
+        isStatic: true,
+        angle: Math.atan2(b.y - a.y, b.x - a.x),
+        restitution: floor.restitution,
+        friction: floor.friction,
+        // Round the ends so letters don't catch on the joints between segments
+        chamfer: { radius: CONTAINER_THICKNESS / 2 - 0.5 },
+        render: { fillStyle: 'transparent' },
+        label: 'container',
+      }));
+    }
+  });
+  return bodies;
+};
+
+// Strokes a fitted outline onto the render context, underneath the letters
+export const drawContainer = (ctx: CanvasRenderingContext2D, paths: Point[][]) => {
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = CONTAINER_THICKNESS;
+  ctx.strokeStyle = '#d6d3d1'; // stone-300
+  ctx.beginPath();
+  paths.forEach(path => path.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y))));
+  ctx.stroke();
+  ctx.restore();
+};
@@ -0,0 +1,173 @@
+import Matter from 'matter-js';
+import { ForceField, ForceFieldKind } from '../types';
+
+// Matter's own gravity scale, so a strength of 1 pulls as hard as default gravity
+const FORCE_SCALE = 0.001;
+// Vortices also pull inwards a little so letters orbit instead of flying off
+const VORTEX_INWARD_RATIO = 0.3;
+// On-screen length of the strength handle per unit of strength
+export const STRENGTH_HANDLE_SCALE = 40;
+const HANDLE_RADIUS = 8;
+
+export type ForceFieldHandle = 'center' | 'radius' | 'strength';
+
+export const FORCE_FIELD_COLORS: Record<ForceFieldKind, string> = {
+  wind: '#0ea5e9',      // sky-500
+  attractor: '#22c55e', // green-500
+  repeller: '#ef4444',  // red-500
+  vortex: '#a855f7',    // purple-500
+};
+
+export const createForceField = (kind: ForceFieldKind, x: number, y: number): ForceField => ({
+  id: `field-${Date.now()}-${Math.floor(Math.random() * 1e6)}`,
+  kind,
+  x,
+  y,
+  radius: 200,
+  strength: 1,
+  angle: 0,
+});
+
+/**
+ * Pushes every body inside the field. Wind is uniform across the zone; the
+ * point fields fall off linearly from full strength at the center to zero at
+ * the rim.
+ */
+export const applyForceField = (field: ForceField, bodies: Matter.Body[]) => {
+  bodies.forEach(body => {
+    if (body.isStatic) return;
+    const dx = body.position.x - field.x;
+    const dy = body.position.y - field.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance > field.radius) return;
+
+    const magnitude = body.mass * field.strength * FORCE_SCALE;
+    let fx = 0;
+    let fy = 0;
+
+    if (field.kind === 'wind') {
+      fx = Math.cos(field.angle) * magnitude;
+      fy = Math.sin(field.angle) * magnitude;
+    } else {
+      if (distance < 1) return;
+      const falloff = 1 - distance / field.radius;
+      // Unit vector pointing away from the center
+      const ux = dx / distance;
+      const uy = dy / distance;
+
+      if (field.kind === 'attractor') {
+        fx = -ux * magnitude * falloff;
+        fy = -uy * magnitude * falloff;
+      } else if (field.kind === 'repeller') {
+        fx = ux * magnitude * falloff;
+        fy = uy * magnitude * falloff;
+      } else {
+        // Clockwise on screen (y points down), plus a gentle inward pull
+        fx = (-uy - ux * VORTEX_INWARD_RATIO) * magnitude * falloff;
+        fy = (ux - uy * VORTEX_INWARD_RATIO) * magnitude * falloff;
+      }
+    }
+
+    body.force.x += fx;
+    body.force.y += fy;
+  });
+};
+
+export const getHandlePositions = (field: ForceField): Record<ForceFieldHandle, Matter.Vector> => {
+  const length = field.strength * STRENGTH_HANDLE_SCALE;
+  return {
+    center: { x: field.x, y: field.y },
+    radius: { x: field.x + field.radius, y: field.y },
+    strength: { x: field.x + Math.cos(field.angle) * length, y: field.y + Math.sin(field.angle) * length },
+  };
+};
+
+// Returns the handle under the point, preferring the small handles over the center
+export const hitTestForceFieldHandle = (field: ForceField, point: Matter.Vector): ForceFieldHandle | null => {
+  const handles = getHandlePositions(field);
+  const order: ForceFieldHandle[] = ['strength', 'radius', 'center'];
+  return order.find(handle => Math.hypot(point.x - handles[handle].x, point.y - handles[handle].y) <= HANDLE_RADIUS * 1.5) || null;
+};
+
+// Returns the field with the given handle moved to the point
+export const dragForceFieldHandle = (field: ForceField, handle: ForceFieldHandle, point: Matter.Vector): ForceField => {
+  if (handle === 'center') return { ...field, x: point.x, y: point.y };
+  const dx = point.x - field.x;
+  const dy = point.y - field.y;
+  if (handle === 'radius') return { ...field, radius: Math.max(20, Math.hypot(dx, dy)) };
+  return {
+    ...field,
+    strength: Math.min(5, Math.hypot(dx, dy) / STRENGTH_HANDLE_SCALE),
+    angle: Math.atan2(dy, dx),
+  };
+};
+
+const drawArrow = (ctx: CanvasRenderingContext2D, fromX: number, fromY: number, toX: number, toY: number) => {
+  const angle = Math.atan2(toY - fromY, toX - fromX);
+  ctx.beginPath();
+  ctx.moveTo(fromX, fromY);
+  ctx.lineTo(toX, toY);
+  ctx.lineTo(toX - Math.cos(angle - 0.5) * 8, toY - Math.sin(angle - 0.5) * 8);
+  ctx.moveTo(toX, toY);
+  ctx.lineTo(toX - Math.cos(angle + 0.5) * 8, toY - Math.sin(angle + 0.5) * 8);
+  ctx.stroke();
+};
+
+// Draws the field's zone and direction hints, plus drag handles while editing
+export const drawForceField = (ctx: CanvasRenderingContext2D, field: ForceField, showHandles: boolean) => {
+  const color = FORCE_FIELD_COLORS[field.kind];
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 2;
+
+  // Zone
+  ctx.globalAlpha = showHandles ? 0.5 : 0.2;
+  ctx.setLineDash([6, 8]);
+  ctx.beginPath();
+  ctx.arc(field.x, field.y, field.radius, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  // Direction hints, halfway to the rim
+  const r = field.radius * 0.5;
+  for (let i = 0; i < 4; i++) {
+    const a = (i / 4) * Math.PI * 2;
+    const px = field.x + Math.cos(a) * r;
+    const py = field.y + Math.sin(a) * r;
+    const tip = 14;
+    if (field.kind === 'wind') {
+      drawArrow(ctx, px, py, px + Math.cos(field.angle) * tip, py + Math.sin(field.angle) * tip);
+    } else if (field.kind === 'attractor') {
+      drawArrow(ctx, px, py, px - Math.cos(a) * tip, py - Math.sin(a) * tip);
+    } else if (field.kind === 'repeller') {
+      drawArrow(ctx, px, py, px + Math.cos(a) * tip, py + Math.sin(a) * tip);
+    } else {
+      drawArrow(ctx, px, py, px - Math.sin(a) * tip, py + Math.cos(a) * tip);
+    }
+  }
+
+  if (showHandles) {
+    const handles = getHandlePositions(field);
+    ctx.globalAlpha = 1;
+    ctx.beginPath();
+    ctx.moveTo(handles.center.x, handles.center.y);
+    ctx.lineTo(handles.strength.x, handles.strength.y);
+    ctx.stroke();
+
+    (Object.keys(handles) as ForceFieldHandle[]).forEach(handle => {
+      ctx.beginPath();
+      ctx.arc(handles[handle].x, handles[handle].y, handle === 'center' ? HANDLE_RADIUS : HANDLE_RADIUS * 0.75, 0, Math.PI * 2);
+      if (handle === 'center') {
+        ctx.fill();
+      } else {
+        ctx.fillStyle = '#ffffff';
+        ctx.fill();
+        ctx.stroke();
+        ctx.fillStyle = color;
+      }
+    });
+  }
+
+  ctx.restore();
+};
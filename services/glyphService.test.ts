@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { cacheGlyphWidth, getGlyphAdvance, layoutGlyphs, measureRun } from './glyphService';
+
+// Widths as the page would send them over to a worker; Node has no canvas to measure with
+const FONT = 'test-glyphs';
+const SIZE = 40;
+const WIDTHS: Record<string, number> = { A: 30, V: 28, AV: 52, VA: 54, ' ': 10, 'A ': 40, ' V': 38 };
+Object.entries(WIDTHS).forEach(([text, width]) => cacheGlyphWidth(text, FONT, SIZE, width));
+
+describe('getGlyphAdvance', () => {
+  it('sets letters half their widths apart, plus the pair kerning', () => {
+    // 30 / 2 + 28 / 2, tightened by 30 + 28 - 52
+    expect(getGlyphAdvance('A', 'V', FONT, SIZE)).toBe(23);
+    expect(getGlyphAdvance('V', 'A', FONT, SIZE)).toBe(25);
+  });
+
+  it('sets any whitespace as wide as a space', () => {
+    expect(getGlyphAdvance('A', '\n', FONT, SIZE)).toBe(getGlyphAdvance('A', ' ', FONT, SIZE));
+  });
+
+  it('falls back to a fixed share of the font size for glyphs it cannot measure', () => {
+    expect(getGlyphAdvance('A', 'Q', FONT, SIZE)).toBeCloseTo(SIZE * 0.7);
+  });
+});
+
+describe('layoutGlyphs', () => {
+  it('offsets each glyph from the first by the advances before it', () => {
+    expect(layoutGlyphs(['A', 'V', 'A'], FONT, SIZE)).toEqual([0, 23, 48]);
+    expect(layoutGlyphs(['A', ' ', 'V'], FONT, SIZE)).toEqual([0, 20, 39]);
+  });
+
+  it('lays out an empty run as nothing', () => {
+    expect(layoutGlyphs([], FONT, SIZE)).toEqual([]);
+  });
+});
+
+describe('measureRun', () => {
+  it('measures each glyph and neighbouring pair it knows', () => {
+    expect(measureRun(['A', 'V'], FONT, SIZE)).toEqual({ A: 30, V: 28, AV: 52 });
+  });
+});
@@ -0,0 +1,216 @@
+// A convex piece of a glyph, described relative to the glyph's visual center
+// (the point the renderer passes to fillText) at spacing 1.
+export interface GlyphPart {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface GlyphShape {
+  parts: GlyphPart[];
+}
+
+// Upper bound on parts per glyph. Dense glyphs are re-traced on a coarser grid
+// until they fit, to keep the broadphase cheap with hundreds of letters.
+const MAX_PARTS = 24;
+// Portion of a grid cell that must be inked for it to count as solid
+const COVERAGE_THRESHOLD = 0.35;
+// Center-to-center advance, in em, for characters that can't be measured
+const DEFAULT_ADVANCE = 0.7;
+
+const shapeCache = new Map<string, GlyphShape | null>();
+const widthCache = new Map<string, number>();
+let rasterCanvas: HTMLCanvasElement | null = null;
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const getRasterContext = (size: number): CanvasRenderingContext2D | null => {
+  if (typeof document === 'undefined') return null;
+  if (!rasterCanvas) rasterCanvas = document.createElement('canvas');
+  if (rasterCanvas.width !== size || rasterCanvas.height !== size) {
+    rasterCanvas.width = size;
+    rasterCanvas.height = size;
+  }
+  return rasterCanvas.getContext('2d', { willReadFrequently: true });
+};
+
+/**
+ * Traces the inked area of a glyph on a grid and merges the solid cells into
+ * rectangles. Every rectangle is convex, so the set can be handed straight to
+ * Matter as the parts of a compound body.
+ */
+const traceParts = (alpha: Uint8ClampedArray, size: number, cell: number): GlyphPart[] => {
+  const cols = Math.ceil(size / cell);
+  const rows = Math.ceil(size / cell);
+  const half = size / 2;
+
+  const isSolid = (col: number, row: number) => {
+    let inked = 0;
+    let total = 0;
+    for (let py = row * cell; py < Math.min(size, (row + 1) * cell); py++) {
+      for (let px = col * cell; px < Math.min(size, (col + 1) * cell); px++) {
+        total++;
+        if (alpha[(py * size + px) * 4 + 3] > 128) inked++;
+      }
+    }
+    return total > 0 && inked / total >= COVERAGE_THRESHOLD;
+  };
+
+  // Rectangles still growing downwards, keyed by their column span
+  let open = new Map<string, { col0: number; col1: number; row0: number; row1: number }>();
+  const closed: { col0: number; col1: number; row0: number; row1: number }[] = [];
+
+  for (let row = 0; row <= rows; row++) {
+    const next = new Map<string, { col0: number; col1: number; row0: number; row1: number }>();
+
+    if (row < rows) {
+      let col = 0;
+      while (col < cols) {
+        if (!isSolid(col, row)) {
+          col++;
+          continue;
+        }
+        const start = col;
+        while (col < cols && isSolid(col, row)) col++;
+
+        const key = `${start}:${col}`;
+        const existing = open.get(key);
+        if (existing) {
+          existing.row1 = row + 1;
+          next.set(key, existing);
+          open.delete(key);
+        } else {
+          next.set(key, { col0: start, col1: col, row0: row, row1: row + 1 });
+        }
+      }
+    }
+
+    open.forEach(rect => closed.push(rect));
+    open = next;
+  }
+
+  return closed.map(rect => ({
+    x: ((rect.col0 + rect.col1) / 2) * cell - half,
+    y: ((rect.row0 + rect.row1) / 2) * cell - half,
+    width: (rect.col1 - rect.col0) * cell,
+    height: (rect.row1 - rect.row0) * cell,
+  }));
+};
+
+/**
+ * Returns how wide a character (or grapheme cluster) draws in the given font and size,
+ * or null when it cannot be measured (no DOM, and not sent over from the page).
+ * Cached like the outlines; scale by `spacing` at use.
+ */
+export const measureGlyph = (char: string, fontFamily: string, fontSize: number): number | null => {
+  const key = `${char}|${fontFamily}|${fontSize}`;
+  const cached = widthCache.get(key);
+  if (cached !== undefined) return cached;
+  if (typeof document === 'undefined') return null;
+
+  if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+  if (!measureContext) return null;
+  measureContext.font = `bold ${fontSize}px ${fontFamily}`;
+  const width = measureContext.measureText(char).width;
+  if (!document.fonts || document.fonts.check(measureContext.font)) {
+    widthCache.set(key, width);
+  }
+  return width;
+};
+
+// Whitespace of any kind is set as wide as a space
+const getSetText = (char: string): string => /^\s+$/.test(char) ? ' ' : char;
+
+/**
+ * Distance from the center of `prev` to the center of `char` set right after it, at
+ * spacing 1: half of each one's measured width plus the font's kerning for the pair.
+ */
+export const getGlyphAdvance = (prev: string, char: string, fontFamily: string, fontSize: number): number => {
+  const a = getSetText(prev);
+  const b = getSetText(char);
+  const widthA = measureGlyph(a, fontFamily, fontSize);
+  const widthB = measureGlyph(b, fontFamily, fontSize);
+  if (widthA === null || widthB === null) return fontSize * DEFAULT_ADVANCE;
+  const pair = measureGlyph(a + b, fontFamily, fontSize);
+  const kerning = pair === null ? 0 : pair - widthA - widthB;
+  return (widthA + widthB) / 2 + kerning;
+};
+
+// Where each character of a run sits along the baseline, as center offsets from the
+// first one's center, at spacing 1
+export const layoutGlyphs = (chars: string[], fontFamily: string, fontSize: number): number[] => {
+  let offset = 0;
+  return chars.map((char, i) => {
+    if (i > 0) offset += getGlyphAdvance(chars[i - 1], char, fontFamily, fontSize);
+    return offset;
+  });
+};
+
+/**
+ * Measures a run's characters and neighbouring pairs the way getGlyphAdvance asks
+ * for them, keyed by the measured text, to seed another thread's cache.
+ */
+export const measureRun = (chars: string[], fontFamily: string, fontSize: number): Record<string, number> => {
+  const widths: Record<string, number> = {};
+  const measure = (text: string) => {
+    if (text in widths) return;
+    const width = measureGlyph(text, fontFamily, fontSize);
+    if (width !== null) widths[text] = width;
+  };
+  chars.forEach((char, i) => {
+    measure(getSetText(char));
+    if (i > 0) measure(getSetText(chars[i - 1]) + getSetText(char));
+  });
+  return widths;
+};
+
+/**
+ * Returns the collision outline of a character in the given font and size,
+ * or null when the glyph cannot be measured (no DOM, font has no ink for it).
+ * Results are cached per character, font and size; scale by `spacing` at use.
+ */
+export const getGlyphShape = (char: string, fontFamily: string, fontSize: number): GlyphShape | null => {
+  const key = `${char}|${fontFamily}|${fontSize}`;
+  if (shapeCache.has(key)) return shapeCache.get(key)!;
+
+  // Room for clusters wider than a letter, like a family emoji drawn as separate faces
+  const size = Math.ceil(Math.max(fontSize * 2, (measureGlyph(char, fontFamily, fontSize) ?? 0) + fontSize));
+  const ctx = getRasterContext(size);
+  if (!ctx) return null;
+
+  // Mirror the text renderer in PhysicsWorld so the outline lines up with the drawn glyph
+  ctx.clearRect(0, 0, size, size);
+  ctx.font = `bold ${fontSize}px ${fontFamily}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#000';
+  ctx.fillText(char, size / 2, size / 2 + 2);
+
+  const alpha = ctx.getImageData(0, 0, size, size).data;
+
+  let cell = Math.max(2, Math.round(fontSize / 12));
+  let parts = traceParts(alpha, size, cell);
+  while (parts.length > MAX_PARTS && cell < fontSize / 2) {
+    cell = Math.ceil(cell * 1.5);
+    parts = traceParts(alpha, size, cell);
+  }
+
+  const shape = parts.length > 0 ? { parts } : null;
+  // A web font that is still loading rasterizes with the fallback face; don't cache that outline
+  if (!document.fonts || document.fonts.check(ctx.font)) {
+    shapeCache.set(key, shape);
+  }
+  return shape;
+};
+
+/**
+ * Seeds the cache with an outline traced elsewhere. The physics worker has no
+ * access to the page's web fonts, so the main thread traces glyphs and sends them.
+ */
+export const cacheGlyphShape = (char: string, fontFamily: string, fontSize: number, shape: GlyphShape | null) => {
+  shapeCache.set(`${char}|${fontFamily}|${fontSize}`, shape);
+};
+
+export const cacheGlyphWidth = (char: string, fontFamily: string, fontSize: number, width: number) => {
+  widthCache.set(`${char}|${fontFamily}|${fontSize}`, width);
+};
@@ -0,0 +1,71 @@
+import { PhysicsConfig } from '../types';
+
+// Gravity angles are in degrees, measured from straight down: 0 pulls down,
+// 90 pulls right, -90 pulls left and 180 pulls up.
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Wraps an angle into (-180, 180]
+export const normalizeAngle = (degrees: number): number => {
+  const wrapped = ((degrees % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+// Whether `next` only turns gravity, as the rotating world does many times a second,
+// leaving every other setting as it was
+export const isGravityTurnOnly = (prev: PhysicsConfig, next: PhysicsConfig): boolean =>
+  prev.gravityAngle !== next.gravityAngle &&
+  (Object.keys(next) as (keyof PhysicsConfig)[]).every(key => key === 'gravityAngle' || prev[key] === next[key]);
+
+export const getGravityVector = (config: PhysicsConfig): { x: number, y: number } => {
+  const rad = toRadians(config.gravityAngle);
+  return { x: Math.sin(rad) * config.gravity, y: Math.cos(rad) * config.gravity };
+};
+
+// Unit vector along which a line of text runs, so that it reads upright relative to gravity
+export const getBaselineDirection = (gravityAngle: number): { x: number, y: number } => {
+  const rad = toRadians(gravityAngle);
+  return { x: Math.cos(rad), y: -Math.sin(rad) };
+};
+
+// Unit vector pointing against gravity
+export const getUpDirection = (gravityAngle: number): { x: number, y: number } => {
+  const rad = toRadians(gravityAngle);
+  return { x: -Math.sin(rad), y: -Math.cos(rad) };
+};
+
+// Body rotation that keeps a freshly spawned letter upright relative to gravity
+export const getUprightAngle = (gravityAngle: number): number => -toRadians(gravityAngle);
+
+// Distance from the viewport center to its edge along a unit vector
+const extentAlong = (v: { x: number, y: number }, width: number, height: number): number => {
+  const alongX = Math.abs(v.x) > 1e-6 ? (width / 2) / Math.abs(v.x) : Infinity;
+  const alongY = Math.abs(v.y) > 1e-6 ? (height / 2) / Math.abs(v.y) : Infinity;
+  return Math.min(alongX, alongY);
+};
+
+/**
+ * Where a new word starts when no origin has been clicked: `inset` px in from
+ * the edge that is currently "up", somewhere along the first two thirds of
+ * that edge. `t` in [0, 1) picks the spot. With gravity pointing down this is
+ * the classic random x between 10% and 70% of the width at y = inset.
+ */
+export const getWordOrigin = (gravityAngle: number, width: number, height: number, inset: number, t: number): { x: number, y: number } => {
+  const up = getUpDirection(gravityAngle);
+  const baseline = getBaselineDirection(gravityAngle);
+  const upExtent = Math.max(0, extentAlong(up, width, height) - inset);
+  const lineExtent = extentAlong(baseline, width, height);
+  const along = (-0.8 + t * 1.2) * lineExtent;
+
+  return {
+    x: width / 2 + up.x * upExtent + baseline.x * along,
+    y: height / 2 + up.y * upExtent + baseline.y * along,
+  };
+};
+
+// True once the cursor has run past 90% of the line in the typing direction
+export const isPastLineEnd = (cursor: { x: number, y: number }, gravityAngle: number, width: number, height: number): boolean => {
+  const baseline = getBaselineDirection(gravityAngle);
+  const along = (cursor.x - width / 2) * baseline.x + (cursor.y - height / 2) * baseline.y;
+  return along > 0.8 * extentAlong(baseline, width, height);
+};
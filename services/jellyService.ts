@@ -0,0 +1,199 @@
+import Matter from 'matter-js';
+import { PhysicsConfig } from '../types';
+import type { LetterSprite } from './simulationService';
+
+// Soft-body letters: a hub carrying the letter's data inside a ring of small circles,
+// held together by springs. Drawn by warping the glyph across the ring's triangles.
+
+export const JELLY_NODES = 10; // circles around each jelly letter's rim
+// Each jelly letter is JELLY_NODES + 1 bodies, so they're capped on their own
+export const MAX_JELLY_LETTERS = 50;
+const MAX_TEXTURES = 300;
+
+// Rim of a jelly letter at rest, in its upright local frame; wide enough to hold the glyph
+export const getJellyRing = (config: PhysicsConfig): { x: number, y: number }[] => {
+  const rx = config.fontSize * 0.38 * config.spacing;
+  const ry = config.fontSize * 0.5 * config.spacing;
+  return Array.from({ length: JELLY_NODES }, (_, i) => {
+    const t = (i / JELLY_NODES) * Math.PI * 2;
+    return { x: Math.cos(t) * rx, y: Math.sin(t) * ry };
+  });
+};
+
+const createSpring = (bodyA: Matter.Body, bodyB: Matter.Body, config: PhysicsConfig): Matter.Constraint =>
+  Matter.Constraint.create({
+    bodyA,
+    bodyB,
+    stiffness: config.jellyStiffness,
+    damping: config.jellyDamping,
+    label: 'jelly-spring',
+    render: { visible: false }
+  });
+
+/**
+ * Builds a jelly letter centered at (x, y), turned by `angle`. The hub gets `options`
+ * (label included) and is what the simulation treats as the letter; `nodes` records its
+ * ring, whose circles point back through `owner`. Springs run around the rim, across
+ * every other node and out from the hub. Hub and ring share a collision group, so they
+ * only bump into other bodies.
+ */
+export const createJellyLetter = (x: number, y: number, angle: number, config: PhysicsConfig, options: any) => {
+  const rest = getJellyRing(config);
+  const group = Matter.Body.nextGroup(true);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  // Circles big enough to close the rim; the hub fills the middle so letters can't sink in
+  const nodeRadius = Math.PI * config.fontSize * 0.44 * config.spacing / JELLY_NODES;
+  const hubRadius = config.fontSize * 0.22 * config.spacing;
+
+  const hub = Matter.Bodies.circle(x, y, hubRadius, { ...options, collisionFilter: { group } });
+  const nodes = rest.map(point => {
+    const node = Matter.Bodies.circle(
+      x + point.x * cos - point.y * sin,
+      y + point.x * sin + point.y * cos,
+      nodeRadius,
+      { collisionFilter: { group }, render: { fillStyle: 'transparent' }, label: 'jelly-node' }
+    );
+    (node as any).owner = hub;
+    return node;
+  });
+  (hub as any).nodes = nodes;
+  (hub as any).meshRest = rest;
+
+  const springs = nodes.flatMap((node, i) => [
+    createSpring(node, nodes[(i + 1) % nodes.length], config),
+    createSpring(node, nodes[(i + 2) % nodes.length], config),
+    createSpring(hub, node, config),
+  ]);
+
+  return { hub, nodes, springs };
+};
+
+// How far a jelly letter is turned from its rest pose, judged by its first node
+export const getJellyAngle = (hub: Matter.Body): number => {
+  const node = (hub as any).nodes[0] as Matter.Body;
+  const rest = (hub as any).meshRest[0] as { x: number, y: number };
+  return Math.atan2(node.position.y - hub.position.y, node.position.x - hub.position.x) - Math.atan2(rest.y, rest.x);
+};
+
+/**
+ * How a renderer paints a jelly letter's glyph into its texture: `paint` draws it
+ * centered on the origin in the renderer's letter look, and `key` names that look for
+ * the texture cache.
+ */
+export interface JellyGlyphStyle {
+  key: string;
+  paint: (ctx: CanvasRenderingContext2D) => void;
+}
+
+// The glyph drawn once, in its look, on a canvas covering the rest mesh
+const textures = new Map<string, HTMLCanvasElement>();
+
+const getGlyphTexture = (
+  sprite: LetterSprite,
+  font: string,
+  pixelRatio: number,
+  width: number,
+  height: number,
+  style: JellyGlyphStyle
+): HTMLCanvasElement => {
+  const key = `${sprite.glyphs[0].char}|${font}|${sprite.color}|${style.key}|${width}x${height}|${pixelRatio}`;
+  let texture = textures.get(key);
+  if (texture) return texture;
+
+  if (textures.size >= MAX_TEXTURES) textures.clear();
+  texture = document.createElement('canvas');
+  texture.width = Math.ceil(width * pixelRatio);
+  texture.height = Math.ceil(height * pixelRatio);
+  const ctx = texture.getContext('2d')!;
+  ctx.scale(pixelRatio, pixelRatio);
+  ctx.translate(width / 2, height / 2);
+  ctx.font = font;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  style.paint(ctx);
+  textures.set(key, texture);
+  return texture;
+};
+
+// Draws one triangle of `texture`, mapping source points s0-s2 onto d0-d2
+const drawTexturedTriangle = (
+  ctx: CanvasRenderingContext2D,
+  texture: HTMLCanvasElement,
+  width: number,
+  height: number,
+  s: { x: number, y: number }[],
+  d: { x: number, y: number }[]
+) => {
+  const denom = (s[1].x - s[0].x) * (s[2].y - s[0].y) - (s[2].x - s[0].x) * (s[1].y - s[0].y);
+  if (Math.abs(denom) < 1e-6) return;
+
+  const a = ((d[1].x - d[0].x) * (s[2].y - s[0].y) - (d[2].x - d[0].x) * (s[1].y - s[0].y)) / denom;
+  const b = ((d[1].y - d[0].y) * (s[2].y - s[0].y) - (d[2].y - d[0].y) * (s[1].y - s[0].y)) / denom;
+  const c = ((d[2].x - d[0].x) * (s[1].x - s[0].x) - (d[1].x - d[0].x) * (s[2].x - s[0].x)) / denom;
+  const dd = ((d[2].y - d[0].y) * (s[1].x - s[0].x) - (d[1].y - d[0].y) * (s[2].x - s[0].x)) / denom;
+  const e = d[0].x - a * s[0].x - c * s[0].y;
+  const f = d[0].y - b * s[0].x - dd * s[0].y;
+
+  // Clip a hair outside the triangle so neighbouring triangles don't leave seams
+  const cx = (d[0].x + d[1].x + d[2].x) / 3;
+  const cy = (d[0].y + d[1].y + d[2].y) / 3;
+  ctx.save();
+  ctx.beginPath();
+  d.forEach((point, i) => {
+    const dx = point.x - cx;
+    const dy = point.y - cy;
+    const length = Math.hypot(dx, dy) || 1;
+    const x = point.x + dx / length * 0.75;
+    const y = point.y + dy / length * 0.75;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.closePath();
+  ctx.clip();
+  ctx.transform(a, b, c, dd, e, f);
+  ctx.drawImage(texture, 0, 0, width, height);
+  ctx.restore();
+};
+
+/**
+ * Draws a jelly letter's glyph stretched over its current mesh: a fan of triangles from
+ * the hub to each pair of neighbouring rim nodes, each mapping its rest-pose piece of
+ * the glyph texture. `font` is the canvas font letters are drawn in; `style` paints the
+ * glyph in the renderer's look.
+ */
+export const drawJellySprite = (
+  ctx: CanvasRenderingContext2D,
+  sprite: LetterSprite,
+  font: string,
+  pixelRatio: number,
+  style: JellyGlyphStyle
+) => {
+  const rest = sprite.meshRest;
+  const points = sprite.mesh;
+  if (!rest || !points || points.length !== rest.length) return;
+
+  // Texture covers the rest mesh plus room for the glyph's overhang and its look's effects
+  const margin = 8;
+  const halfWidth = Math.max(...rest.map(p => Math.abs(p.x))) + margin;
+  const halfHeight = Math.max(...rest.map(p => Math.abs(p.y))) + margin;
+  const width = halfWidth * 2;
+  const height = halfHeight * 2;
+  const texture = getGlyphTexture(sprite, font, pixelRatio, width, height, style);
+  const toTexture = (p: { x: number, y: number }) => ({ x: p.x + halfWidth, y: p.y + halfHeight });
+
+  const hub = { x: sprite.x, y: sprite.y };
+  const restHub = toTexture({ x: 0, y: 0 });
+
+  ctx.save();
+  ctx.globalAlpha = 1 - sprite.fade;
+  for (let i = 0; i < rest.length; i++) {
+    const j = (i + 1) % rest.length;
+    drawTexturedTriangle(ctx, texture, width, height,
+      [restHub, toTexture(rest[i]), toTexture(rest[j])],
+      [hub, points[i], points[j]]
+    );
+  }
+  ctx.restore();
+};
@@ -0,0 +1,71 @@
+import { LetterLook, LookStyle, SavedLook } from '../types';
+
+const LOOKS_STORAGE_KEY = 'wordfall.looks';
+
+// What a style's two parameters mean, and the range of its size
+export interface LookStyleInfo {
+  label: string;
+  intensityLabel: string;
+  sizeLabel: string;
+  sizeUnit: string;
+  minSize: number;
+  maxSize: number;
+  defaultSize: number;
+}
+
+export const LOOK_STYLES: Record<LookStyle, LookStyleInfo> = {
+  plain: { label: 'Plain', intensityLabel: 'Shadow', sizeLabel: 'Shadow Blur', sizeUnit: 'px', minSize: 0, maxSize: 16, defaultSize: 4 },
+  // Size 1 smears a continuous trail; larger sizes leave distinct afterimages
+  trails: { label: 'Trails', intensityLabel: 'Persistence', sizeLabel: 'Afterimage Gap', sizeUnit: ' frames', minSize: 1, maxSize: 8, defaultSize: 1 },
+  glow: { label: 'Neon Glow', intensityLabel: 'Brightness', sizeLabel: 'Radius', sizeUnit: 'px', minSize: 2, maxSize: 40, defaultSize: 16 },
+  // Intensity fills the letter in behind its stroke; 0 is outline only
+  outline: { label: 'Outline', intensityLabel: 'Fill', sizeLabel: 'Stroke', sizeUnit: 'px', minSize: 0.5, maxSize: 6, defaultSize: 1.5 },
+  letterpress: { label: 'Letterpress', intensityLabel: 'Depth', sizeLabel: 'Inset', sizeUnit: 'px', minSize: 0.5, maxSize: 4, defaultSize: 1 },
+  ink: { label: 'Ink Bleed', intensityLabel: 'Darkness', sizeLabel: 'Bleed', sizeUnit: 'px', minSize: 1, maxSize: 24, defaultSize: 8 },
+};
+
+export const createLook = (style: LookStyle, intensity: number = 0.5): LetterLook => ({
+  style,
+  intensity,
+  size: LOOK_STYLES[style].defaultSize,
+});
+
+// A few looks to start from
+export const PRESET_LOOKS: SavedLook[] = [
+  { id: 'look-neon', name: 'Neon Sign', look: { style: 'glow', intensity: 0.8, size: 20 } },
+  { id: 'look-comet', name: 'Comet Tails', look: { style: 'trails', intensity: 0.85, size: 1 } },
+  { id: 'look-ghosts', name: 'Afterimages', look: { style: 'trails', intensity: 0.7, size: 5 } },
+  { id: 'look-wireframe', name: 'Wireframe', look: { style: 'outline', intensity: 0, size: 1.5 } },
+  { id: 'look-press', name: 'Letterpress', look: { style: 'letterpress', intensity: 0.6, size: 1 } },
+  { id: 'look-ink', name: 'Wet Ink', look: { style: 'ink', intensity: 0.5, size: 10 } },
+];
+
+// Key that changes whenever the look does, for caches drawn in it
+export const getLookKey = (look: LetterLook): string => `${look.style}|${look.intensity}|${look.size}`;
+
+export const loadLooks = (): SavedLook[] => {
+  try {
+    const raw = localStorage.getItem(LOOKS_STORAGE_KEY);
+    if (!raw) return [];
+    const looks = JSON.parse(raw);
+    return Array.isArray(looks) ? looks : [];
+  } catch (error) {
+    console.warn('Failed to read saved looks, starting with none:', error);
+    return [];
+  }
+};
+
+// Persists every saved look. Throws if storage is full so the caller can keep its old state.
+export const saveLooks = (looks: SavedLook[]) => {
+  try {
+    localStorage.setItem(LOOKS_STORAGE_KEY, JSON.stringify(looks));
+  } catch (error) {
+    throw new Error(`Could not save looks (storage may be full): ${(error as Error).message}`);
+  }
+};
+
+export const createSavedLook = (name: string, look: LetterLook): SavedLook => ({
+  id: `look-${Date.now()}-${Math.floor(Math.random() * 1e6)}`,
+  name,
+  look: { ...look },
+});
@@ -0,0 +1,93 @@
+import { Material, MaterialMatch, PhysicsConfig, SoundProfile } from '../types';
+import { getBaseCharacter, splitGraphemes } from './textService';
+
+// Matter's own body defaults, used for letters no material claims
+const DEFAULT_DENSITY = 0.001;
+const DEFAULT_AIR_FRICTION = 0.01;
+
+const VOWELS = 'aeiouAEIOU';
+
+export const MATERIAL_MATCH_LABELS: Record<MaterialMatch, string> = {
+  uppercase: 'Capitals',
+  lowercase: 'Lowercase',
+  vowels: 'Vowels',
+  digits: 'Digits',
+  punctuation: 'Punctuation',
+  chars: 'Characters…',
+};
+
+export const SOUND_PROFILES: SoundProfile[] = ['chime', 'thud', 'pluck', 'bell'];
+
+export const createMaterial = (match: MaterialMatch): Material => ({
+  id: `material-${Date.now()}-${Math.floor(Math.random() * 1e6)}`,
+  name: MATERIAL_MATCH_LABELS[match],
+  match,
+  chars: '',
+  density: DEFAULT_DENSITY,
+  restitution: 0.6,
+  friction: 0.5,
+  frictionAir: DEFAULT_AIR_FRICTION,
+});
+
+// Heavy capitals, bouncy vowels and slippery punctuation, to start from
+export const PRESET_MATERIALS: Material[] = [
+  { ...createMaterial('uppercase'), id: 'material-capitals', name: 'Heavy Capitals', density: 0.004, restitution: 0.2, sound: 'thud' },
+  { ...createMaterial('vowels'), id: 'material-vowels', name: 'Bouncy Vowels', restitution: 0.95, friction: 0.3, sound: 'bell' },
+  { ...createMaterial('punctuation'), id: 'material-punctuation', name: 'Slippery Punctuation', density: 0.0005, friction: 0.01, frictionAir: 0.002, sound: 'pluck' },
+];
+
+// Classes match a cluster by its base character, so accented vowels are still vowels;
+// a list of characters matches whole clusters
+export const matchesMaterial = (char: string, material: Material): boolean => {
+  const base = getBaseCharacter(char);
+  if (!base) return false;
+  switch (material.match) {
+    case 'uppercase': return base !== base.toLowerCase();
+    case 'lowercase': return base !== base.toUpperCase();
+    case 'vowels': return VOWELS.includes(base);
+    case 'digits': return /^\p{Nd}$/u.test(base);
+    case 'punctuation': return /^[\p{P}\p{S}]$/u.test(base);
+    case 'chars': return splitGraphemes(material.chars).includes(char);
+  }
+};
+
+// The first material in the table that claims `char`, if any
+export const getMaterial = (char: string, materials: Material[] = []): Material | undefined =>
+  materials.find(material => matchesMaterial(char, material));
+
+export interface MaterialProperties {
+  density: number;
+  restitution: number;
+  friction: number;
+  frictionAir: number;
+  sound?: SoundProfile;
+}
+
+// Physical properties for a body carrying `text`: a letter's material, or the global
+// restitution and friction when none applies. A whole word averages its letters and
+// sounds like the first letter that has a sound of its own.
+export const getMaterialProperties = (text: string, config: PhysicsConfig): MaterialProperties => {
+  const chars = splitGraphemes(text);
+  const properties = chars.map(char => {
+    const material = getMaterial(char, config.materials);
+    return material || {
+      density: DEFAULT_DENSITY,
+      restitution: config.restitution,
+      friction: config.friction,
+      frictionAir: DEFAULT_AIR_FRICTION,
+      sound: undefined,
+    };
+  });
+  if (properties.length === 0) return getMaterialProperties(' ', config);
+
+  const average = (key: 'density' | 'restitution' | 'friction' | 'frictionAir') =>
+    properties.reduce((sum, p) => sum + p[key], 0) / properties.length;
+
+  return {
+    density: average('density'),
+    restitution: average('restitution'),
+    friction: average('friction'),
+    frictionAir: average('frictionAir'),
+    sound: properties.find(p => p.sound)?.sound,
+  };
+};
@@ -0,0 +1,88 @@
+import Matter from 'matter-js';
+import { Obstacle } from '../types';
+
+const SEGMENT_THICKNESS = 8;
+const HIT_TOLERANCE = 10;
+
+const distanceToSegment = (p: Matter.Vector, a: Matter.Vector, b: Matter.Vector): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/**
+ * Builds the static Matter bodies for an obstacle. Each segment of a line or
+ * polyline becomes its own thin rectangle so letters can slide along ramps.
+ */
+export const createObstacleBodies = (obstacle: Obstacle): Matter.Body[] => {
+  const options = {
+    isStatic: true,
+    friction: 0.1,
+    render: { fillStyle: 'transparent' },
+    label: 'obstacle',
+  };
+
+  let bodies: Matter.Body[];
+  if (obstacle.kind === 'circle') {
+    const center = obstacle.points[0];
+    bodies = [Matter.Bodies.circle(center.x, center.y, obstacle.radius || 0, options)];
+  } else {
+    bodies = [];
+    for (let i = 1; i < obstacle.points.length; i++) {
+      const a = obstacle.points[i - 1];
+      const b = obstacle.points[i];
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      if (length < 1) continue;
+      bodies.push(Matter.Bodies.rectangle((a.x + b.x) / 2, (a.y + b.y) / 2, length, SEGMENT_THICKNESS, {
+        ...options,
+        angle: Math.atan2(b.y - a.y, b.x - a.x),
+        // Round the ends so letters don't catch on the joints of a polyline
+        chamfer: { radius: SEGMENT_THICKNESS / 2 - 0.5 },
+      }));
+    }
+  }
+
+  bodies.forEach(body => {
+    (body as any).obstacleId = obstacle.id;
+  });
+  return bodies;
+};
+
+// True if the point lies on (or inside, for circles) the obstacle
+export const hitTestObstacle = (obstacle: Obstacle, point: Matter.Vector): boolean => {
+  if (obstacle.kind === 'circle') {
+    const center = obstacle.points[0];
+    return Math.hypot(point.x - center.x, point.y - center.y) <= (obstacle.radius || 0) + HIT_TOLERANCE;
+  }
+  for (let i = 1; i < obstacle.points.length; i++) {
+    if (distanceToSegment(point, obstacle.points[i - 1], obstacle.points[i]) <= HIT_TOLERANCE) return true;
+  }
+  return false;
+};
+
+// Strokes an obstacle (or an in-progress draft of one) onto the render context
+export const drawObstacle = (ctx: CanvasRenderingContext2D, obstacle: Obstacle, isSelected: boolean, isDraft: boolean = false) => {
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = SEGMENT_THICKNESS;
+  ctx.strokeStyle = isSelected ? '#d97706' : '#a8a29e'; // amber-600 / stone-400
+  if (isDraft) {
+    ctx.globalAlpha = 0.6;
+    ctx.setLineDash([12, 10]);
+  }
+
+  ctx.beginPath();
+  if (obstacle.kind === 'circle') {
+    const center = obstacle.points[0];
+    ctx.arc(center.x, center.y, obstacle.radius || 0, 0, Math.PI * 2);
+    ctx.fillStyle = isSelected ? 'rgba(217,119,6,0.15)' : 'rgba(168,162,158,0.15)';
+    ctx.fill();
+  } else {
+    obstacle.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  }
+  ctx.stroke();
+  ctx.restore();
+};
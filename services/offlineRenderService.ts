@@ -0,0 +1,386 @@
+import { ExportSettings, ForceField, Obstacle, PhysicsConfig } from '../types';
+import { AudioService, IMPACT_FULL_VOLUME_SPEED } from './audioService';
+import { CanvasRenderer } from './canvasRenderer';
+import { fitContainer } from './containerService';
+import { normalizeAngle } from './gravityService';
+import { getMaterial } from './materialService';
+import { SeededRandom } from './randomService';
+import { downloadRecording, RECORDING_BACKGROUND } from './recordingService';
+import { drawPendingWord, drawScenery } from './rendererService';
+import { SimulationService } from './simulationService';
+import { splitGraphemes } from './textService';
+import { getAutoTypeDelay, PERFORM_TAIL_MS, REVEAL_DELAY_MS, TypewriterService } from './typewriterService';
+import { WebmMuxer, WebmVideoCodec } from './webmMuxer';
+
+const SAMPLE_RATE = 48000;
+const CHANNELS = 2;
+const AUDIO_BITRATE = 128000;
+const KEY_FRAME_INTERVAL = 2; // seconds between video key frames
+const MAX_ENCODE_QUEUE = 8; // frames the video encoder may fall behind before rendering waits
+const PROGRESS_INTERVAL = 10; // frames between progress reports
+// Best first; VP9 level 5.1 covers 4K
+const VIDEO_CODECS: { codec: string, webm: WebmVideoCodec }[] = [
+  { codec: 'vp09.00.51.08', webm: 'V_VP9' },
+  { codec: 'vp8', webm: 'V_VP8' },
+];
+
+export const EXPORT_HEIGHTS = [720, 1080, 1440, 2160];
+
+export const DEFAULT_EXPORT: ExportSettings = {
+  format: 'webm',
+  height: 2160,
+  frameRate: 60,
+  bitrate: 40,
+};
+
+export const isVideoExportSupported = (): boolean => typeof VideoEncoder !== 'undefined';
+export const isFrameExportSupported = (): boolean => 'showDirectoryPicker' in window;
+
+// Everything about the live session a take depends on
+export interface OfflineTake {
+  text: string;
+  wpm: number;
+  revealOnFinish: boolean;
+  config: PhysicsConfig;
+  fontFamily: string;
+  // The view's size in CSS px; the simulation runs at this size whatever the output resolution
+  width: number;
+  height: number;
+  obstacles: Obstacle[];
+  forceFields: ForceField[];
+  // Letter colors, one per word in turn
+  colors: string[];
+  anchor: { x: number, y: number } | null;
+  maxLetters: number;
+  withAudio: boolean;
+}
+
+export interface OfflineProgress {
+  stage: 'frames' | 'audio' | 'saving';
+  frames: number;
+  seconds: number;
+}
+
+// Where rendered frames go
+interface FrameSink {
+  addFrame(canvas: HTMLCanvasElement, index: number, time: number): Promise<void>;
+  // `duration` is in ms
+  finish(audio: AudioBuffer | null, duration: number): Promise<void>;
+  // Releases encoders whether or not the take finished
+  close(): void;
+}
+
+// A sound the take made, replayed into an OfflineAudioContext once the take's length is known
+interface SoundEvent {
+  time: number;
+  play: (audio: AudioService) => void;
+}
+
+const abortError = () => new DOMException('Export cancelled', 'AbortError');
+
+// 16-bit PCM WAV of the rendered sound
+const encodeWav = (buffer: AudioBuffer): Blob => {
+  const channels = buffer.numberOfChannels;
+  const frames = buffer.length;
+  const view = new DataView(new ArrayBuffer(44 + frames * channels * 2));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + frames * channels * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, frames * channels * 2, true);
+
+  const data = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = Math.max(-1, Math.min(1, data[c][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+      offset += 2;
+    }
+  }
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+// Numbered PNGs, plus the sound as audio.wav, written into a folder the user picks
+class PngSequenceSink implements FrameSink {
+  constructor(private folder: FileSystemDirectoryHandle) {}
+
+  public async addFrame(canvas: HTMLCanvasElement, index: number) {
+    const png = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode frame')), 'image/png');
+    });
+    await this.write(`frame-${String(index).padStart(6, '0')}.png`, png);
+  }
+
+  public async finish(audio: AudioBuffer | null) {
+    if (audio) await this.write('audio.wav', encodeWav(audio));
+  }
+
+  public close() {}
+
+  private async write(name: string, blob: Blob) {
+    const file = await this.folder.getFileHandle(name, { create: true });
+    const writable = await file.createWritable();
+    await writable.write(blob);
+    await writable.close();
+  }
+}
+
+// A WebM encoded with WebCodecs, downloaded when it's done
+class WebmSink implements FrameSink {
+  private error: Error | null = null;
+
+  private constructor(private encoder: VideoEncoder, private muxer: WebmMuxer, private frameRate: number) {}
+
+  // Throws if the browser can't encode any WebM video codec at this size
+  public static async create(width: number, height: number, settings: ExportSettings): Promise<WebmSink> {
+    for (const { codec, webm } of VIDEO_CODECS) {
+      const config: VideoEncoderConfig = { codec, width, height, bitrate: settings.bitrate * 1e6, framerate: settings.frameRate };
+      const support = await VideoEncoder.isConfigSupported(config);
+      if (!support.supported) continue;
+
+      const muxer = new WebmMuxer(webm, width, height);
+      let sink: WebmSink | null = null;
+      const encoder = new VideoEncoder({
+        output: chunk => muxer.addVideoChunk(chunk),
+        error: e => {
+          if (sink) sink.error = e;
+        },
+      });
+      encoder.configure(config);
+      sink = new WebmSink(encoder, muxer, settings.frameRate);
+      return sink;
+    }
+    throw new Error(`This browser cannot encode WebM video at ${width}x${height}`);
+  }
+
+  public async addFrame(canvas: HTMLCanvasElement, index: number, time: number) {
+    if (this.error) throw this.error;
+    const frame = new VideoFrame(canvas, { timestamp: Math.round(time * 1000), duration: Math.round(1e6 / this.frameRate) });
+    this.encoder.encode(frame, { keyFrame: index % (this.frameRate * KEY_FRAME_INTERVAL) === 0 });
+    frame.close();
+    while (this.encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  public async finish(audio: AudioBuffer | null, duration: number) {
+    await this.encoder.flush();
+    this.encoder.close();
+    if (this.error) throw this.error;
+    if (audio) await this.encodeAudio(audio);
+    downloadRecording(this.muxer.finish(duration), `wordfall-export-${new Date().toISOString()}`);
+  }
+
+  public close() {
+    if (this.encoder.state !== 'closed') this.encoder.close();
+  }
+
+  private async encodeAudio(buffer: AudioBuffer) {
+    const config: AudioEncoderConfig = { codec: 'opus', sampleRate: buffer.sampleRate, numberOfChannels: buffer.numberOfChannels, bitrate: AUDIO_BITRATE };
+    const support = await AudioEncoder.isConfigSupported(config);
+    if (!support.supported) {
+      console.error("Opus encoding is not supported; exporting without sound");
+      return;
+    }
+
+    this.muxer.setAudio(buffer.numberOfChannels, buffer.sampleRate);
+    let error: Error | null = null;
+    const encoder = new AudioEncoder({
+      output: (chunk, metadata) => this.muxer.addAudioChunk(chunk, metadata),
+      error: e => { error = e; },
+    });
+    encoder.configure(config);
+
+    // One second at a time, planar like the buffer itself
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    for (let offset = 0; offset < buffer.length; offset += buffer.sampleRate) {
+      const frames = Math.min(buffer.sampleRate, buffer.length - offset);
+      const data = new Float32Array(frames * channels.length);
+      channels.forEach((channel, c) => data.set(channel.subarray(offset, offset + frames), c * frames));
+      const chunk = new AudioData({
+        format: 'f32-planar',
+        sampleRate: buffer.sampleRate,
+        numberOfFrames: frames,
+        numberOfChannels: channels.length,
+        timestamp: Math.round(offset / buffer.sampleRate * 1e6),
+        data,
+      });
+      encoder.encode(chunk);
+      chunk.close();
+    }
+    await encoder.flush();
+    encoder.close();
+    if (error) throw error;
+  }
+}
+
+/**
+ * Renders a Perform Mode take without the wall clock: a fresh simulation steps at the
+ * fixed timestep, the auto-type schedule replays on the simulation clock exactly as a
+ * fixed-step take types it, and every output frame is drawn at the chosen resolution
+ * however long it takes. The sound is rendered afterwards through an OfflineAudioContext,
+ * each note placed at the simulation time it was played.
+ *
+ * PNG sequences ask for a folder first, so call this straight from a user gesture.
+ * Rejects with an AbortError when `signal` fires.
+ */
+export const renderTake = async (take: OfflineTake, settings: ExportSettings, onProgress: (progress: OfflineProgress) => void, signal: AbortSignal) => {
+  const { width, height } = take;
+  const text = splitGraphemes(take.text);
+  const pixelRatio = settings.height / height;
+  // Encoders want even dimensions
+  const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+  const output = document.createElement('canvas');
+  output.width = even(width * pixelRatio);
+  output.height = even(height * pixelRatio);
+  const ctx = output.getContext('2d')!;
+
+  const sink: FrameSink = settings.format === 'png'
+    ? new PngSequenceSink(await (window as any).showDirectoryPicker({ mode: 'readwrite' }))
+    : await WebmSink.create(output.width, output.height, settings);
+
+  // The take's world, seeded like a fresh Perform Mode run
+  const master = new SeededRandom(take.config.seed);
+  const config: PhysicsConfig = { ...take.config, fixedStep: true, workerPhysics: false };
+  const simulation = new SimulationService({ width, height, config, fontFamily: take.fontFamily });
+  simulation.setRandom(master);
+  take.obstacles.forEach(obstacle => simulation.addObstacle(obstacle));
+  simulation.setForceFields(take.forceFields);
+  const typingRandom = master.fork('typing');
+
+  const sounds: SoundEvent[] = [];
+  const playNow = (play: SoundEvent['play']) => sounds.push({ time: simulation.time, play });
+  simulation.onCollision = impact => {
+    playNow(audio => audio.playCollisionSound(impact.a.sound, Math.min(1, impact.speed / IMPACT_FULL_VOLUME_SPEED)));
+  };
+
+  const typewriter = new TypewriterService(simulation);
+  typewriter.setRandom(master);
+  typewriter.maxLetters = take.maxLetters;
+  let colorIndex = 0;
+  typewriter.getColor = () => take.colors[colorIndex % take.colors.length];
+  typewriter.onNewWord = () => {
+    colorIndex += 1;
+    playNow(audio => audio.changeScale());
+  };
+  typewriter.onType = char => {
+    const sound = getMaterial(char, config.materials)?.sound;
+    playNow(audio => audio.playTypingSound(sound));
+  };
+  typewriter.setAnchor(take.anchor, 0);
+  typewriter.startWord();
+
+  // The auto-type schedule, as App runs it for fixed-step takes
+  let index = 0;
+  let nextTypeAt: number | null = null;
+  let endAt: number | null = null;
+  const typeNextChar = (time: number): number | null => {
+    if (index >= text.length) {
+      typewriter.flushWord();
+      if (take.revealOnFinish) {
+        if (index === text.length) {
+          index += 1;
+          return REVEAL_DELAY_MS;
+        }
+        simulation.setReassembling(true);
+      }
+      return null;
+    }
+
+    const char = text[index];
+    if (index === 0) typewriter.newLine();
+    const wrapped = typewriter.type(char, time, true);
+    index += 1;
+    return getAutoTypeDelay(char, take.wpm, typingRandom, wrapped);
+  };
+  simulation.onStep = (time: number) => {
+    if (endAt !== null) return;
+    if (nextTypeAt === null) nextTypeAt = time;
+    if (time < nextTypeAt) return;
+
+    const delay = typeNextChar(time);
+    if (delay === null) {
+      endAt = time + PERFORM_TAIL_MS;
+    } else {
+      nextTypeAt = time + delay;
+    }
+  };
+
+  const renderer = new CanvasRenderer();
+  renderer.resize(width, height, pixelRatio);
+  const containerPaths = config.container ? fitContainer(config.container, width, height) : [];
+
+  try {
+    const frameDuration = 1000 / settings.frameRate;
+    let frame = 0;
+    for (; ; frame++) {
+      if (signal.aborted) throw abortError();
+      const frameTime = frame * frameDuration;
+
+      // The rotating world turns with the simulation clock rather than a timer
+      if (config.gravitySpin !== 0) {
+        simulation.setConfig({ ...config, gravityAngle: normalizeAngle(config.gravityAngle + config.gravitySpin * frameTime / 1000) });
+      }
+      while (simulation.time < frameTime) simulation.step();
+      if (endAt !== null && simulation.time >= endAt) break;
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.fillStyle = RECORDING_BACKGROUND;
+      ctx.fillRect(0, 0, output.width, output.height);
+      ctx.setTransform(output.width / width, 0, 0, output.height / height, 0, 0);
+      drawScenery(ctx, simulation, containerPaths);
+      renderer.draw({
+        sprites: simulation.getSprites(),
+        fontFamily: simulation.fontFamily,
+        fontSize: config.fontSize,
+        sedimentVersion: simulation.sedimentVersion,
+        look: config.look,
+      });
+      ctx.drawImage(renderer.element, 0, 0, width, height);
+      drawPendingWord(ctx, simulation);
+
+      await sink.addFrame(output, frame, frameTime);
+      if (frame % PROGRESS_INTERVAL === 0) {
+        onProgress({ stage: 'frames', frames: frame, seconds: frameTime / 1000 });
+        // Let the page repaint between batches
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    const duration = frame * frameDuration;
+    let audio: AudioBuffer | null = null;
+    if (take.withAudio && sounds.length > 0) {
+      onProgress({ stage: 'audio', frames: frame, seconds: duration / 1000 });
+      const context = new OfflineAudioContext(CHANNELS, Math.ceil(duration / 1000 * SAMPLE_RATE), SAMPLE_RATE);
+      const audioService = new AudioService(context);
+      // Seed before building the reverb, as a fresh live session would
+      audioService.setRandom(master);
+      audioService.init();
+      sounds.forEach(sound => {
+        audioService.setScheduleTime(sound.time / 1000);
+        sound.play(audioService);
+      });
+      audio = await context.startRendering();
+    }
+
+    if (signal.aborted) throw abortError();
+    onProgress({ stage: 'saving', frames: frame, seconds: duration / 1000 });
+    await sink.finish(audio, duration);
+  } finally {
+    sink.close();
+    renderer.destroy();
+    simulation.destroy();
+  }
+};
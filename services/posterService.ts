@@ -0,0 +1,221 @@
+import { PosterSettings } from '../types';
+import { CanvasRenderer } from './canvasRenderer';
+import { fitContainer } from './containerService';
+import { RECORDING_BACKGROUND } from './recordingService';
+import { DEFAULT_LETTER_COLOR, drawScenery, getFadeStyle, getLetterFont, getSpriteAngle, GLYPH_BASELINE_SHIFT } from './rendererService';
+import type { Simulation } from './simulationService';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const METERS_PER_INCH = 0.0254;
+// The title block's height as a share of the view's, and its text's share of the block
+const TITLE_BLOCK_RATIO = 0.15;
+const TITLE_FONT_RATIO = 0.4;
+
+export const POSTER_DPIS = [72, 150, 300, 600];
+// Browsers won't draw canvases much wider than this
+export const MAX_POSTER_WIDTH = 16384;
+
+export const DEFAULT_POSTER: PosterSettings = {
+  format: 'png',
+  width: 4800, // 16 in at 300 dpi
+  dpi: 300,
+  background: RECORDING_BACKGROUND,
+  title: '',
+};
+
+// The poster in view px: the view, with the title block (if any) under it
+interface PosterLayout {
+  width: number;
+  viewHeight: number;
+  titleHeight: number;
+  height: number;
+  // Output px per view px
+  scale: number;
+}
+
+const getLayout = (simulation: Simulation, settings: PosterSettings): PosterLayout => {
+  const { width, height: viewHeight } = simulation;
+  const titleHeight = settings.title.trim() ? Math.round(viewHeight * TITLE_BLOCK_RATIO) : 0;
+  return { width, viewHeight, titleHeight, height: viewHeight + titleHeight, scale: settings.width / width };
+};
+
+// --- PNG ---
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// Canvas PNGs carry no resolution, so a pHYs chunk goes in straight after the IHDR
+// (8-byte signature + 25-byte chunk)
+const setPngDpi = async (png: Blob, dpi: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  const pixelsPerMeter = Math.round(dpi / METERS_PER_INCH);
+  view.setUint32(0, 9);
+  chunk.set(new TextEncoder().encode('pHYs'), 4);
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // unit: meter
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  return new Blob([bytes.subarray(0, 33), chunk, bytes.subarray(33)], { type: 'image/png' });
+};
+
+const renderPng = async (simulation: Simulation, settings: PosterSettings, layout: PosterLayout): Promise<Blob> => {
+  const { width, viewHeight, titleHeight, height, scale } = layout;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d')!;
+  if (settings.background) {
+    ctx.fillStyle = settings.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  const { config, fontFamily } = simulation;
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  drawScenery(ctx, simulation, config.container ? fitContainer(config.container, width, viewHeight) : []);
+
+  // Letters in the current look, drawn once by a renderer of their own at the poster's scale
+  const renderer = new CanvasRenderer();
+  try {
+    renderer.resize(width, viewHeight, scale);
+    renderer.draw({
+      sprites: simulation.getSprites(),
+      fontFamily,
+      fontSize: config.fontSize,
+      sedimentVersion: simulation.sedimentVersion,
+      look: config.look,
+    });
+    ctx.drawImage(renderer.element, 0, 0, width, viewHeight);
+  } finally {
+    renderer.destroy();
+  }
+
+  if (titleHeight > 0) {
+    ctx.font = getLetterFont(titleHeight * TITLE_FONT_RATIO, fontFamily);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = DEFAULT_LETTER_COLOR;
+    ctx.fillText(settings.title.trim(), width / 2, viewHeight + titleHeight / 2);
+  }
+
+  const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  canvas.width = 0;
+  canvas.height = 0;
+  if (!png) throw new Error(`This browser cannot draw a ${Math.round(width * scale)}x${Math.round(height * scale)} poster`);
+  return setPngDpi(png, settings.dpi);
+};
+
+// --- SVG ---
+
+// Letters only, each glyph a <text> placed and turned like its body, for editing in a
+// vector app. Obstacles, force fields and the look's effects stay in the PNG.
+const renderSvg = (simulation: Simulation, settings: PosterSettings, layout: PosterLayout): Blob => {
+  const { width, viewHeight, titleHeight, height, scale } = layout;
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  // Sized in inches, so it opens at its printed size
+  svg.setAttribute('width', `${(width * scale / settings.dpi).toFixed(3)}in`);
+  svg.setAttribute('height', `${(height * scale / settings.dpi).toFixed(3)}in`);
+  svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+  const element = <K extends keyof SVGElementTagNameMap>(tag: K, attributes: Record<string, string | number>, parent: Element = svg) => {
+    const node = document.createElementNS(SVG_NS, tag);
+    Object.entries(attributes).forEach(([name, value]) => node.setAttribute(name, String(value)));
+    parent.appendChild(node);
+    return node;
+  };
+
+  if (settings.title.trim()) element('title', {}).textContent = settings.title.trim();
+  if (settings.background) element('rect', { width, height, fill: settings.background });
+
+  const defs = element('defs', {});
+  const letters = element('g', {
+    'font-family': simulation.fontFamily,
+    'font-size': simulation.config.fontSize,
+    'font-weight': 'bold',
+    'text-anchor': 'middle',
+    'dominant-baseline': 'middle',
+  });
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+  simulation.getSprites().forEach(sprite => {
+    const { alpha, scale: fadeScale } = getFadeStyle(sprite);
+    if (alpha <= 0) return;
+
+    // A shard shows just its piece of the glyph; the clip sits in the letter's own frame
+    let clipId: string | null = null;
+    if (sprite.clip) {
+      clipId = `clip-${sprite.id}`;
+      const clipPath = element('clipPath', { id: clipId }, defs);
+      element('rect', {
+        x: round(-sprite.clip.width / 2),
+        y: round(-sprite.clip.height / 2),
+        width: round(sprite.clip.width),
+        height: round(sprite.clip.height),
+      }, clipPath);
+    }
+
+    const angle = round(getSpriteAngle(sprite) * 180 / Math.PI);
+    sprite.glyphs.forEach(glyph => {
+      const text = element('text', {
+        x: round(glyph.offset.x),
+        y: round(glyph.offset.y + GLYPH_BASELINE_SHIFT),
+        transform: `translate(${round(sprite.x)} ${round(sprite.y)}) rotate(${angle})${fadeScale !== 1 ? ` scale(${round(fadeScale)})` : ''}`,
+        fill: sprite.color || DEFAULT_LETTER_COLOR,
+      }, letters);
+      if (alpha < 1) text.setAttribute('opacity', String(round(alpha)));
+      if (clipId) text.setAttribute('clip-path', `url(#${clipId})`);
+      text.textContent = glyph.char;
+    });
+  });
+
+  if (titleHeight > 0) {
+    element('text', {
+      x: width / 2,
+      y: viewHeight + titleHeight / 2,
+      'font-family': simulation.fontFamily,
+      'font-size': round(titleHeight * TITLE_FONT_RATIO),
+      'font-weight': 'bold',
+      'text-anchor': 'middle',
+      'dominant-baseline': 'middle',
+      fill: DEFAULT_LETTER_COLOR,
+    }).textContent = settings.title.trim();
+  }
+
+  const markup = `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(svg)}`;
+  return new Blob([markup], { type: 'image/svg+xml' });
+};
+
+/**
+ * Renders the world as it stands to a PNG or SVG at the poster's size, apart from the
+ * screen canvas, and offers it as a download. Rejects if the browser can't draw a
+ * canvas that large.
+ */
+export const capturePoster = async (simulation: Simulation, settings: PosterSettings) => {
+  const layout = getLayout(simulation, settings);
+  const blob = settings.format === 'svg'
+    ? renderSvg(simulation, settings, layout)
+    : await renderPng(simulation, settings, layout);
+
+  const name = settings.title.trim().replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'wordfall-poster';
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}.${settings.format}`;
+  link.click();
+  // Give the download a moment to start before the blob goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,39 @@
+// FNV-1a, used to derive independent sub-seeds from the master seed and a label
+const hashString = (seed: number, label: string): number => {
+  let hash = (2166136261 ^ seed) >>> 0;
+  for (let i = 0; i < label.length; i++) {
+    hash ^= label.charCodeAt(i);
+    hash = Math.imul(hash, 16777619) >>> 0;
+  }
+  return hash;
+};
+
+/**
+ * Small deterministic PRNG (mulberry32). The app creates one from the
+ * configured seed and hands it to every subsystem; each one forks its own
+ * stream so that, say, muting audio (which skips its random draws) can't shift
+ * the sequence the physics sees.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(public readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Uniform float in [0, 1), drop-in for Math.random()
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Independent generator for one consumer, derived from the seed (not the current state)
+  public fork(label: string): SeededRandom {
+    return new SeededRandom(hashString(this.seed, label));
+  }
+}
+
+export const randomSeed = (): number => Math.floor(Math.random() * 1e9);
@@ -0,0 +1,149 @@
+import { RecordingSettings } from '../types';
+
+// The page background behind the canvases (bg-stone-100), which a recording needs painted in
+export const RECORDING_BACKGROUND = '#f5f5f4';
+// Audio bitrate; the video's is a setting
+const AUDIO_BITS_PER_SECOND = 128000;
+// Best first: VP9 keeps thin glyph edges sharper at the same bitrate
+const WEBM_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export const RECORDING_HEIGHTS = [0, 720, 1080, 1440];
+export const RECORDING_FRAME_RATES = [24, 30, 60];
+
+export const DEFAULT_RECORDING: RecordingSettings = {
+  enabled: false,
+  height: 1080,
+  frameRate: 30,
+  bitrate: 8,
+};
+
+export const isRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+// A view's stacked layers, bottom first, as PhysicsWorld lays them out
+export type RecordingLayer = HTMLCanvasElement | SVGSVGElement;
+
+/**
+ * Records the view's layers and an audio stream to WebM. The layers are composited
+ * onto a canvas of the chosen size every animation frame, and that canvas is captured.
+ * Started after the view's frame loop, it reads the layers in the same frame they were
+ * drawn, before a WebGL layer's buffer is cleared.
+ * SVG layers are rasterized as fast as the browser decodes them, which can trail the
+ * canvases by a frame or two, and without the page's web fonts.
+ */
+export class TakeRecorder {
+  private canvas = document.createElement('canvas');
+  private ctx: CanvasRenderingContext2D;
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+  private frameId = 0;
+  private svgImage: HTMLImageElement | null = null;
+  private svgLoading = false;
+
+  // Throws if the browser can't record WebM
+  constructor(private getLayers: () => RecordingLayer[], audio: MediaStream | null, settings: RecordingSettings) {
+    const mimeType = WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) throw new Error('This browser cannot record WebM video');
+
+    const [base] = getLayers();
+    const width = base ? base.clientWidth : 0;
+    const height = base ? base.clientHeight : 0;
+    const outputHeight = settings.height || Math.round(height * (window.devicePixelRatio || 1));
+    // Encoders want even dimensions
+    const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+    this.canvas.width = even(width > 0 && height > 0 ? outputHeight * width / height : outputHeight);
+    this.canvas.height = even(outputHeight);
+    this.ctx = this.canvas.getContext('2d')!;
+
+    const stream = this.canvas.captureStream(settings.frameRate);
+    audio?.getAudioTracks().forEach(track => stream.addTrack(track));
+    this.recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: settings.bitrate * 1e6,
+      audioBitsPerSecond: AUDIO_BITS_PER_SECOND,
+    });
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+  }
+
+  public start() {
+    this.composite();
+    this.recorder.start();
+  }
+
+  // Resolves with the finished video
+  public stop(): Promise<Blob> {
+    cancelAnimationFrame(this.frameId);
+    return new Promise(resolve => {
+      const finish = () => {
+        resolve(new Blob(this.chunks, { type: this.recorder.mimeType }));
+        this.release();
+      };
+      if (this.recorder.state === 'inactive') {
+        finish();
+      } else {
+        this.recorder.onstop = finish;
+        this.recorder.stop();
+      }
+    });
+  }
+
+  // Stops without keeping anything
+  public cancel() {
+    cancelAnimationFrame(this.frameId);
+    this.recorder.onstop = () => this.release();
+    if (this.recorder.state !== 'inactive') this.recorder.stop();
+  }
+
+  private release() {
+    this.recorder.stream.getTracks().forEach(track => track.stop());
+    this.chunks = [];
+    this.canvas.width = 0;
+    this.canvas.height = 0;
+  }
+
+  private composite = () => {
+    const { width, height } = this.canvas;
+    const ctx = this.ctx;
+    ctx.fillStyle = RECORDING_BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+
+    this.getLayers().forEach(layer => {
+      if (layer instanceof HTMLCanvasElement) {
+        ctx.drawImage(layer, 0, 0, width, height);
+      } else {
+        this.rasterizeSvg(layer);
+        if (this.svgImage) ctx.drawImage(this.svgImage, 0, 0, width, height);
+      }
+    });
+
+    this.frameId = requestAnimationFrame(this.composite);
+  };
+
+  // Starts decoding the SVG's current markup unless a decode is already under way
+  private rasterizeSvg(svg: SVGSVGElement) {
+    if (this.svgLoading) return;
+    this.svgLoading = true;
+    const markup = new XMLSerializer().serializeToString(svg);
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = image.onerror = () => {
+      URL.revokeObjectURL(url);
+      if (image.complete && image.naturalWidth > 0) this.svgImage = image;
+      this.svgLoading = false;
+    };
+    image.src = url;
+  }
+}
+
+// Offers the video as a .webm download
+export const downloadRecording = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'wordfall-take'}.webm`;
+  link.click();
+  // Give the download a moment to start before the blob goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
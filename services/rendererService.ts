@@ -0,0 +1,105 @@
+import { LetterLook, RendererKind } from '../types';
+import { drawContainer } from './containerService';
+import { drawForceField } from './forceFieldService';
+import { layoutGlyphs } from './glyphService';
+import { getBaselineDirection, getUprightAngle } from './gravityService';
+import { drawObstacle } from './obstacleService';
+import type { LetterSprite, Simulation } from './simulationService';
+import { splitGraphemes } from './textService';
+
+// What every renderer backend shares: letters are drawn bold, in their sprite's color,
+// with a soft drop shadow, shrinking and fading out as they die.
+
+export const DEFAULT_LETTER_COLOR = '#292524'; // stone-800
+export const LETTER_SHADOW = { color: 'rgba(0,0,0,0.1)', blur: 4, offsetX: 2, offsetY: 2 };
+// Glyphs are drawn this far below their center to line up with the traced outlines
+export const GLYPH_BASELINE_SHIFT = 2;
+
+export const RENDERER_LABELS: Record<RendererKind, string> = {
+  canvas: 'Canvas',
+  webgl: 'WebGL',
+  svg: 'SVG',
+};
+
+export const getLetterFont = (fontSize: number, fontFamily: string): string => `bold ${fontSize}px ${fontFamily}`;
+
+// Opacity and scale of a sprite part-way through its fade-out
+export const getFadeStyle = (sprite: LetterSprite): { alpha: number, scale: number } => ({
+  alpha: 1 - sprite.fade,
+  // Shrink slightly as it disappears
+  scale: 1 - sprite.fade * 0.4,
+});
+
+// Backends that can't warp a jelly letter draw it rigid, turned the way its ring is
+export const getSpriteAngle = (sprite: LetterSprite): number => {
+  const mesh = sprite.mesh;
+  const rest = sprite.meshRest;
+  if (!mesh || !rest || mesh.length === 0) return sprite.angle;
+  return Math.atan2(mesh[0].y - sprite.y, mesh[0].x - sprite.x) - Math.atan2(rest[0].y, rest[0].x);
+};
+
+// One frame's worth of letters
+export interface RenderFrame {
+  sprites: LetterSprite[];
+  fontFamily: string;
+  fontSize: number;
+  // Changes whenever the sediment heap does, for backends that cache it
+  sedimentVersion: number;
+  // Backends that can't draw the look's style fall back to plain letters
+  look: LetterLook;
+}
+
+/**
+ * A letter-drawing backend. PhysicsWorld stacks its element over the canvas holding
+ * obstacles and force fields, sizes it in CSS pixels, and hands it a frame per tick.
+ */
+export interface Renderer {
+  readonly kind: RendererKind;
+  readonly element: HTMLCanvasElement | SVGSVGElement;
+  resize(width: number, height: number, pixelRatio: number): void;
+  draw(frame: RenderFrame): void;
+  destroy(): void;
+}
+
+// What sits underneath the letters: the container (already fitted to the view), obstacles
+// and force fields
+export const drawScenery = (
+  ctx: CanvasRenderingContext2D,
+  simulation: Simulation,
+  containerPaths: { x: number, y: number }[][],
+  selectedObstacleId: string | null = null,
+  showFieldHandles: boolean = false
+) => {
+  drawContainer(ctx, containerPaths);
+  simulation.getObstacles().forEach(obstacle => {
+    drawObstacle(ctx, obstacle, obstacle.id === selectedObstacleId);
+  });
+  simulation.forceFields.forEach(field => {
+    drawForceField(ctx, field, showFieldHandles);
+  });
+};
+
+// Ghost of the word being typed in whole-word mode, laid out like addWord will drop it
+export const drawPendingWord = (ctx: CanvasRenderingContext2D, simulation: Simulation) => {
+  const pending = simulation.pendingWord;
+  if (!pending) return;
+
+  const { fontSize, spacing, gravityAngle } = simulation.config;
+  const baseline = getBaselineDirection(gravityAngle);
+  const chars = splitGraphemes(pending.word);
+  const offsets = layoutGlyphs(chars, simulation.fontFamily, fontSize).map(offset => offset * Math.max(1, spacing));
+  ctx.save();
+  ctx.font = getLetterFont(fontSize, simulation.fontFamily);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.globalAlpha = 0.35;
+  ctx.fillStyle = pending.color;
+  chars.forEach((char, i) => {
+    ctx.save();
+    ctx.translate(pending.x + baseline.x * offsets[i], pending.y + baseline.y * offsets[i]);
+    ctx.rotate(getUprightAngle(gravityAngle));
+    ctx.fillText(char, 0, GLYPH_BASELINE_SHIFT);
+    ctx.restore();
+  });
+  ctx.restore();
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { PhysicsConfig, WallType } from '../types';
+import { SeededRandom } from './randomService';
+import { SimulationService } from './simulationService';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+
+const wall = (enabled: boolean) => ({ enabled, restitution: 0, friction: 0.1, wrap: false });
+
+const CONFIG: PhysicsConfig = {
+  gravity: 1,
+  gravityAngle: 0,
+  gravitySpin: 0,
+  seed: 42,
+  fixedStep: true,
+  workerPhysics: false,
+  renderer: 'canvas',
+  look: { style: 'plain', intensity: 0.5, size: 4 },
+  restitution: 0.6,
+  friction: 0.5,
+  scale: 1,
+  fontSize: 48,
+  spacing: 1.0,
+  bodyShape: 'box',
+  wholeWords: false,
+  linkWords: false,
+  linkStiffness: 0.5,
+  linkBreakStrength: 40,
+  sediment: false,
+  materials: [],
+  impactThreshold: 3,
+  impactRateLimit: 150,
+  shatter: false,
+  shatterSpeed: 12,
+  jellyStiffness: 0.15,
+  jellyDamping: 0.05,
+  boundaries: {
+    [WallType.FLOOR]: wall(true),
+    [WallType.WALL_LEFT]: wall(true),
+    [WallType.WALL_RIGHT]: wall(true),
+    [WallType.CEILING]: wall(false),
+  },
+  container: null,
+};
+
+// A fresh world seeded with `seed` that has had "abc" dropped into it and run `steps` steps
+const dropText = (seed: number, steps: number, config: PhysicsConfig = CONFIG) => {
+  const simulation = new SimulationService({ width: WIDTH, height: HEIGHT, config, fontFamily: 'monospace' });
+  simulation.setRandom(new SeededRandom(seed));
+  simulation.addText('abc', 200, 100);
+  simulation.step(steps);
+  return simulation;
+};
+
+const getPoses = (simulation: SimulationService) =>
+  simulation.getSprites().map(({ x, y, angle }) => ({ x, y, angle }));
+
+describe('SimulationService', () => {
+  it('replays a seeded drop identically', () => {
+    const first = dropText(7, 240);
+    const second = dropText(7, 240);
+    expect(getPoses(first)).toEqual(getPoses(second));
+    expect(first.time).toBe(second.time);
+    first.destroy();
+    second.destroy();
+  });
+
+  it('lets dropped letters come to rest on the floor', () => {
+    const simulation = dropText(7, 600);
+    const settled = getPoses(simulation);
+    simulation.step(60);
+    const later = getPoses(simulation);
+
+    expect(settled).toHaveLength(3);
+    settled.forEach((pose, i) => {
+      expect(pose.y).toBeGreaterThan(HEIGHT - CONFIG.fontSize * 1.5);
+      expect(pose.y).toBeLessThan(HEIGHT);
+      expect(Math.hypot(later[i].x - pose.x, later[i].y - pose.y)).toBeLessThan(0.5);
+    });
+    simulation.destroy();
+  });
+
+  it('keeps the sediment heap through a small turn of gravity', () => {
+    const config = { ...CONFIG, sediment: true };
+    const simulation = dropText(7, 600, config);
+    expect(simulation.getSprites().every(sprite => sprite.settled)).toBe(true);
+
+    simulation.setConfig({ ...config, gravityAngle: 2 });
+    expect(simulation.getSprites().every(sprite => sprite.settled)).toBe(true);
+
+    simulation.setConfig({ ...config, gravityAngle: 20 });
+    expect(simulation.getSprites().some(sprite => sprite.settled)).toBe(false);
+    simulation.destroy();
+  });
+});
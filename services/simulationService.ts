@@ -0,0 +1,1297 @@
+import Matter from 'matter-js';
+import { BoundaryConfigs, CollisionBody, Container, LetterHome, CollisionEvent, ForceField, LetterSnapshot, LinkSnapshot, Obstacle, PhysicsConfig, SceneSnapshot, WallType } from '../types';
+import { getGlyphAdvance, getGlyphShape, layoutGlyphs, measureGlyph } from './glyphService';
+import { getMaterialProperties } from './materialService';
+import { createJellyLetter, getJellyAngle, MAX_JELLY_LETTERS } from './jellyService';
+import { createObstacleBodies } from './obstacleService';
+import { createContainerBodies } from './containerService';
+import { getBaselineDirection, getGravityVector, getUpDirection, getUprightAngle, isGravityTurnOnly, normalizeAngle } from './gravityService';
+import { SeededRandom } from './randomService';
+import { applyForceField } from './forceFieldService';
+import { splitGraphemes } from './textService';
+
+// The simulation side of Wordfall: the Matter engine, letters, walls, obstacles and
+// force fields, with no React, DOM or canvas. Views drive and draw it; it also runs
+// headless in Node (glyph-shaped bodies fall back to boxes without a canvas).
+
+export const FADE_DURATION = 600; // ms for the fade-out animation
+export const FIXED_DELTA = 1000 / 60; // ms of simulation per engine step
+const WALL_THICKNESS = 60;
+const ESCAPE_MARGIN = 200; // px past an open edge before a letter is removed
+const SEDIMENT_DELAY = 1500; // ms a letter must sleep before it freezes into the heap
+const SEDIMENT_REVIVE_SPEED = 6; // px per step a letter must hit the heap with to knock letters loose
+const FRAGMENT_LIFETIME = 1000; // ms shards of a shattered letter fly before they fade out
+const FRAGMENT_BURST = 2; // px per step shards fly apart at, at most, on top of the letter's motion
+const ASSEMBLE_PULL = 0.06; // of the way home a reassembling letter is pulled each step
+const ASSEMBLE_DAMPING = 0.8; // of its velocity a reassembling letter keeps each step
+const ASSEMBLE_SHAPE_PULL = 0.3; // of the way back into shape a jelly ring is pulled each step, enough to untangle it
+const SEDIMENT_TURN_TOLERANCE = 5; // degrees gravity may turn before the heap comes loose
+const DEFAULT_MASK = 0xFFFFFFFF; // Matter's default collision mask: collides with everything
+
+// Builds the static boundary bodies for a w x h viewport. Edges that are disabled
+// or set to wrap get no body; wrapping is handled in the beforeUpdate loop.
+const createWalls = (w: number, h: number, boundaries: BoundaryConfigs): Matter.Body[] => {
+    const frames: Record<WallType, { x: number, y: number, width: number, height: number }> = {
+        [WallType.FLOOR]: { x: w / 2, y: h + WALL_THICKNESS / 2 - 10, width: w, height: WALL_THICKNESS },
+        [WallType.WALL_LEFT]: { x: 0 - WALL_THICKNESS / 2, y: h / 2, width: WALL_THICKNESS, height: h * 2 },
+        [WallType.WALL_RIGHT]: { x: w + WALL_THICKNESS / 2, y: h / 2, width: WALL_THICKNESS, height: h * 2 },
+        [WallType.CEILING]: { x: w / 2, y: 0 - WALL_THICKNESS / 2, width: w, height: WALL_THICKNESS },
+    };
+
+    return (Object.keys(frames) as WallType[])
+        .filter(type => boundaries[type].enabled && !boundaries[type].wrap)
+        .map(type => {
+            const frame = frames[type];
+            const wall = Matter.Bodies.rectangle(frame.x, frame.y, frame.width, frame.height, {
+                isStatic: true,
+                restitution: boundaries[type].restitution,
+                friction: boundaries[type].friction,
+                render: { fillStyle: 'transparent' },
+                label: 'wall'
+            });
+            (wall as any).wallType = type;
+            return wall;
+        });
+};
+
+// Builds the collision parts of one glyph centered at (x, y): the traced outline's
+// convex pieces in 'glyph' mode, or null for the classic rectangle (also used when
+// the glyph can't be traced yet).
+const createGlyphParts = (char: string, x: number, y: number, config: PhysicsConfig, fontFamily: string): Matter.Body[] | null => {
+  const { fontSize, spacing } = config;
+  const shape = config.bodyShape === 'glyph' ? getGlyphShape(char, fontFamily, fontSize) : null;
+  if (!shape) return null;
+
+  return shape.parts.map(part => Matter.Bodies.rectangle(
+      x + part.x * spacing,
+      y + part.y * spacing,
+      part.width * spacing,
+      part.height * spacing,
+      { render: { fillStyle: 'transparent' } }
+  ));
+};
+
+// The box is as wide as the character measures (0.6em when it can't be measured), so
+// neighbours set by their measured advances just touch. Zero-width marks still get a sliver.
+const createBoxPart = (char: string, x: number, y: number, config: PhysicsConfig, fontFamily: string, options: any = { render: { fillStyle: 'transparent' } }): Matter.Body => {
+  const { fontSize, spacing } = config;
+  const width = Math.max(fontSize * 0.1, measureGlyph(char, fontFamily, fontSize) ?? fontSize * 0.6);
+  return Matter.Bodies.rectangle(
+      x, 
+      y, 
+      width * spacing, // Width scaled by spacing
+      fontSize * 0.8 * spacing, // Height scaled by spacing
+      options
+  );
+};
+
+// Builds the physics body for a single letter, centered on the glyph at (x, y).
+// In 'glyph' mode the body is a compound of the traced outline's convex parts;
+// otherwise (or if the glyph can't be traced yet) it's the classic rectangle.
+const createLetterBody = (char: string, x: number, y: number, config: PhysicsConfig, fontFamily: string, options: any): Matter.Body => {
+  const parts = createGlyphParts(char, x, y, config, fontFamily);
+
+  if (!parts) {
+    const body = createBoxPart(char, x, y, config, fontFamily, options);
+    (body as any).glyphOffset = { x: 0, y: 0 };
+    return body;
+  }
+
+  const { angle, ...rest } = options;
+  const body = Matter.Body.create({ ...rest, parts });
+  
+  // A compound body's position is its center of mass, which rarely matches the glyph's
+  // visual center. Remember where the glyph sits in the body's local frame for drawing.
+  (body as any).glyphOffset = { x: x - body.position.x, y: y - body.position.y };
+  if (angle) Matter.Body.setAngle(body, angle);
+  return body;
+};
+
+// Centers of a word's characters along the baseline from the first one's, spaced like addText
+const layoutWord = (chars: string[], config: PhysicsConfig, fontFamily: string): number[] =>
+  layoutGlyphs(chars, fontFamily, config.fontSize).map(offset => offset * Math.max(1, config.spacing));
+
+// Distance from a word's first character center to its last
+const getWordLength = (chars: string[], config: PhysicsConfig, fontFamily: string): number => {
+  const offsets = layoutWord(chars, config, fontFamily);
+  return offsets[offsets.length - 1] ?? 0;
+};
+
+// Builds one rigid compound body for a whole word whose visual center is (x, y),
+// laying the letters out along the body's local x axis as they were typed. Each letter
+// contributes its own parts; `glyphs` records where to draw every character.
+const createWordBody = (word: string, x: number, y: number, config: PhysicsConfig, fontFamily: string, options: any): Matter.Body => {
+  const chars = splitGraphemes(word);
+  const offsets = layoutWord(chars, config, fontFamily);
+  const halfLength = (offsets[offsets.length - 1] ?? 0) / 2;
+  const centers = offsets.map(offset => ({ x: x + offset - halfLength, y }));
+  const parts = chars.flatMap((char, i) =>
+      createGlyphParts(char, centers[i].x, centers[i].y, config, fontFamily) || [createBoxPart(char, centers[i].x, centers[i].y, config, fontFamily)]
+  );
+
+  const { angle = 0, ...rest } = options;
+  const body = Matter.Body.create({ ...rest, parts });
+  (body as any).glyphs = chars.map((char, i) => ({
+      char,
+      offset: { x: centers[i].x - body.position.x, y: centers[i].y - body.position.y }
+  }));
+
+  // Rotate about the center of mass, then shift so the word's visual center stays at (x, y)
+  const centerX = x - body.position.x;
+  const centerY = y - body.position.y;
+  Matter.Body.setAngle(body, angle);
+  Matter.Body.setPosition(body, {
+      x: x - (centerX * Math.cos(angle) - centerY * Math.sin(angle)),
+      y: y - (centerX * Math.sin(angle) + centerY * Math.cos(angle))
+  });
+  return body;
+};
+
+// Gives a letter (or whole-word) body the material of its characters, falling back to
+// the global restitution and friction. Expects `char` to be set.
+const applyMaterial = (body: Matter.Body, config: PhysicsConfig) => {
+    const material = getMaterialProperties((body as any).char, config);
+    [body, ...getJellyNodes(body)].forEach(part => {
+        Matter.Body.setDensity(part, material.density);
+        part.restitution = material.restitution;
+        part.friction = material.friction;
+        part.frictionAir = material.frictionAir;
+    });
+    (body as any).sound = material.sound;
+};
+
+const describeCollisionBody = (body: any): CollisionBody => ({
+    id: body.id,
+    char: body.char,
+    color: body.color,
+    sound: body.sound,
+});
+
+// Middle of a collision's contact points
+const getContactPoint = (collision: any): { x: number, y: number } => {
+    const count = Math.max(1, collision.supportCount);
+    let x = 0;
+    let y = 0;
+    for (let i = 0; i < count; i++) {
+        x += collision.supports[i].x;
+        y += collision.supports[i].y;
+    }
+    return { x: x / count, y: y / count };
+};
+
+// Breaks a letter (or each letter of a word) into a jittered 2 x 2 grid of shards over
+// its text cell. Shards keep the body's motion, spin and material, fly slightly apart,
+// and draw the part of the glyph they cover.
+const createFragments = (body: Matter.Body, config: PhysicsConfig, random: () => number): Matter.Body[] => {
+    const source = body as any;
+    const glyphs: { char: string, offset: { x: number, y: number } }[] =
+        source.glyphs || [{ char: source.char, offset: source.glyphOffset || { x: 0, y: 0 } }];
+    const cellWidth = config.fontSize * 0.7;
+    const cellHeight = config.fontSize;
+    const cos = Math.cos(body.angle);
+    const sin = Math.sin(body.angle);
+    // Shards of one letter start out touching, so they must not push each other apart
+    const group = Matter.Body.nextGroup(true);
+
+    return glyphs.flatMap(glyph => {
+        const splitX = cellWidth * (0.35 + random() * 0.3);
+        const splitY = cellHeight * (0.35 + random() * 0.3);
+        const columns = [[0, splitX], [splitX, cellWidth]];
+        const rows = [[0, splitY], [splitY, cellHeight]];
+
+        return columns.flatMap(([left, right]) => rows.map(([top, bottom]) => {
+            const width = right - left;
+            const height = bottom - top;
+            // Shard center in the body's frame, then in the world
+            const local = {
+                x: glyph.offset.x - cellWidth / 2 + (left + right) / 2,
+                y: glyph.offset.y - cellHeight / 2 + (top + bottom) / 2,
+            };
+            const arm = { x: local.x * cos - local.y * sin, y: local.x * sin + local.y * cos };
+
+            const shard = Matter.Bodies.rectangle(body.position.x + arm.x, body.position.y + arm.y, width, height, {
+                angle: body.angle,
+                restitution: body.restitution,
+                friction: body.friction,
+                frictionAir: body.frictionAir,
+                collisionFilter: { group },
+                render: { fillStyle: 'transparent' },
+                label: 'fragment'
+            });
+            (shard as any).char = glyph.char;
+            (shard as any).color = source.color;
+            (shard as any).glyphOffset = { x: glyph.offset.x - local.x, y: glyph.offset.y - local.y };
+            (shard as any).clip = { width, height };
+
+            // Point velocity of the spinning letter, plus a push away from its center
+            const distance = Math.hypot(arm.x, arm.y) || 1;
+            const burst = FRAGMENT_BURST * (0.5 + random() * 0.5);
+            Matter.Body.setVelocity(shard, {
+                x: body.velocity.x - body.angularVelocity * arm.y + arm.x / distance * burst,
+                y: body.velocity.y + body.angularVelocity * arm.x + arm.y / distance * burst,
+            });
+            Matter.Body.setAngularVelocity(shard, body.angularVelocity + (random() - 0.5) * 0.2);
+            return shard;
+        }));
+    });
+};
+
+// How many letters a body counts as towards the letter cap
+const getLetterCount = (body: Matter.Body): number => (body as any).glyphs ? (body as any).glyphs.length : 1;
+
+// Removes letters together with any word-chain links (or the drag) attached to them, so a
+// surviving neighbour isn't left tethered to a body that's no longer simulated. Jelly
+// letters take their ring and springs with them.
+const removeLetters = (world: Matter.World, bodies: Matter.Body[]) => {
+    if (bodies.length === 0) return;
+    const removed = new Set(bodies);
+    bodies.forEach(body => getJellyNodes(body).forEach(node => removed.add(node)));
+    const links = world.constraints.filter(c =>
+        (c.label === 'link' || c.label === 'grab' || c.label === 'jelly-spring') && (removed.has(c.bodyA) || removed.has(c.bodyB))
+    );
+    Matter.World.remove(world, [...Array.from<Matter.Body>(removed), ...links]);
+};
+
+// Ring of a jelly letter's hub; empty for any other body
+const getJellyNodes = (body: Matter.Body): Matter.Body[] => (body as any).nodes || [];
+
+// The letter a colliding body belongs to: a jelly node's hub, or the body itself
+const getOwner = (body: any): any => body.owner || body;
+
+// Moves a letter, and a jelly letter's ring along with it
+const translateLetter = (body: Matter.Body, x: number, y: number, updateVelocity: boolean = true) => {
+    const dx = x - body.position.x;
+    const dy = y - body.position.y;
+    Matter.Body.setPosition(body, { x, y }, updateVelocity);
+    getJellyNodes(body).forEach(node => {
+        Matter.Body.setPosition(node, { x: node.position.x + dx, y: node.position.y + dy }, updateVelocity);
+    });
+};
+
+// Springs a letter towards its home slot, cancelling gravity so it can hang there. Jelly
+// rings are pulled upright into their rest shape around the hub as it travels; other
+// letters just turn upright.
+const pullHome = (body: Matter.Body, gravity: { x: number, y: number, scale: number }) => {
+    const home = (body as any).home as LetterHome;
+    const cos = Math.cos(home.angle);
+    const sin = Math.sin(home.angle);
+    const rest: { x: number, y: number }[] = (body as any).meshRest || [];
+    const targets = [
+        { part: body, x: home.x, y: home.y, pull: ASSEMBLE_PULL },
+        ...getJellyNodes(body).map((node, i) => ({
+            part: node,
+            x: body.position.x + rest[i].x * cos - rest[i].y * sin,
+            y: body.position.y + rest[i].x * sin + rest[i].y * cos,
+            pull: ASSEMBLE_SHAPE_PULL,
+        })),
+    ];
+
+    targets.forEach(({ part, x, y, pull }) => {
+        Matter.Sleeping.set(part, false);
+        Matter.Body.setVelocity(part, {
+            x: part.velocity.x * ASSEMBLE_DAMPING + (x - part.position.x) * pull,
+            y: part.velocity.y * ASSEMBLE_DAMPING + (y - part.position.y) * pull,
+        });
+        part.force.x -= part.mass * gravity.x * gravity.scale;
+        part.force.y -= part.mass * gravity.y * gravity.scale;
+    });
+
+    if (targets.length === 1) {
+        const turn = Math.atan2(Math.sin(home.angle - body.angle), Math.cos(home.angle - body.angle));
+        Matter.Body.setAngularVelocity(body, body.angularVelocity * ASSEMBLE_DAMPING + turn * ASSEMBLE_PULL);
+    }
+};
+
+// Joins two consecutive letters of a word at their facing edges along the baseline
+const createLink = (prev: Matter.Body, next: Matter.Body, baseline: { x: number, y: number }, halfAdvance: number, stiffness: number): Matter.Constraint => {
+    return Matter.Constraint.create({
+        bodyA: prev,
+        bodyB: next,
+        pointA: { x: baseline.x * halfAdvance, y: baseline.y * halfAdvance },
+        pointB: { x: -baseline.x * halfAdvance, y: -baseline.y * halfAdvance },
+        stiffness,
+        damping: 0.05,
+        label: 'link',
+        render: { visible: false }
+    });
+};
+
+interface ObstacleEntry {
+  obstacle: Obstacle;
+  bodies: Matter.Body[];
+}
+
+// A word waiting to drop in whole-word mode, drawn as a ghost where it will land
+export interface PendingWord {
+  word: string;
+  x: number;
+  y: number;
+  color: string;
+}
+
+// What a view needs to draw one letter body: its transform, fade and the characters on it
+export interface LetterSprite {
+  id: number;
+  x: number;
+  y: number;
+  angle: number;
+  // 0 while alive, rising to 1 as it fades out after being pruned
+  fade: number;
+  // Frozen into the sediment heap; doesn't move until revived
+  settled: boolean;
+  color: string;
+  // Characters in the body's local frame; one for a letter, several for a whole word
+  glyphs: { char: string, offset: { x: number, y: number } }[];
+  // Shards of a shattered letter show only this rect of their glyph, centered on the body
+  clip?: { width: number, height: number };
+  // Jelly letters: the ring at rest in the letter's upright frame, and where it is now
+  // (in world space), in the same order
+  meshRest?: { x: number, y: number }[];
+  mesh?: { x: number, y: number }[];
+}
+
+// Body-level part of a scene snapshot; the caller adds config, font and palette
+export type SceneBodies = Pick<SceneSnapshot, 'time' | 'width' | 'height' | 'letters' | 'links' | 'obstacles'>;
+
+/**
+ * The simulation as views and the typewriter see it. SimulationService runs it on
+ * the calling thread; WorkerSimulation mirrors the same API onto a Web Worker.
+ */
+export interface Simulation {
+  readonly config: PhysicsConfig;
+  readonly width: number;
+  readonly height: number;
+  readonly fontFamily: string;
+  readonly forceFields: ForceField[];
+  readonly pendingWord: PendingWord | null;
+  readonly time: number;
+  // Changes whenever letters join or leave the sediment heap, so views can cache its drawing
+  readonly sedimentVersion: number;
+  readonly reassembling: boolean;
+  onStep?: (time: number) => void;
+  // Called for every reported impact, during the step it happens in
+  onCollision?: (impact: CollisionEvent) => void;
+
+  // Advances the simulation by `count` steps of FIXED_DELTA
+  step(count?: number): void;
+  setRandom(random: SeededRandom): void;
+  setFontFamily(fontFamily: string): void;
+  setForceFields(fields: ForceField[]): void;
+  setConfig(config: PhysicsConfig): void;
+  resize(width: number, height: number): void;
+
+  getSprites(): LetterSprite[];
+  getObstacles(): Obstacle[];
+
+  addText(text: string, x?: number, y?: number, color?: string): void;
+  addWord(word: string, x?: number, y?: number, color?: string): void;
+  previewWord(word: string, x: number, y: number, color: string): void;
+  endWord(): void;
+  clearLetters(): void;
+  pruneLetters(maxCount: number): void;
+
+  addObstacle(obstacle: Obstacle): boolean;
+  removeObstacle(id: string): void;
+  clearObstacles(): void;
+
+  // Pointer dragging: grab the letter under a point, pull it along, let go
+  grab(point: { x: number, y: number }): void;
+  drag(point: { x: number, y: number }): void;
+  release(): void;
+
+  // Pulls every letter back to where it was typed, or lets the text fall again
+  setReassembling(active: boolean): void;
+
+  captureScene(): SceneBodies | Promise<SceneBodies>;
+  restoreScene(snapshot: SceneSnapshot): void;
+  destroy(): void;
+}
+
+export interface SimulationOptions {
+  width: number;
+  height: number;
+  config: PhysicsConfig;
+  fontFamily: string;
+}
+
+// 0 while a letter is alive, rising to 1 as it fades out after being pruned
+export const getFadeProgress = (body: Matter.Body, now: number): number => {
+  if (!(body as any).isDying) return 0;
+  return Math.min(1, (now - (body as any).dyingSince) / FADE_DURATION);
+};
+
+export class SimulationService implements Simulation {
+  public readonly engine: Matter.Engine;
+  public width: number;
+  public height: number;
+  public config: PhysicsConfig;
+  public fontFamily: string;
+  public forceFields: ForceField[] = [];
+  public pendingWord: PendingWord | null = null;
+  public sedimentVersion: number = 0;
+  public reassembling: boolean = false;
+
+  // Called once per engine step with the simulation time, and for every reported impact
+  public onStep?: (time: number) => void;
+  public onCollision?: (impact: CollisionEvent) => void;
+
+  // Spawn jitter; seeded via setRandom for reproducible takes
+  private random: () => number = Math.random;
+
+  // Obstacles live alongside their bodies so they survive clearLetters and resizes
+  private obstacles = new Map<string, ObstacleEntry>();
+  // Last letter of the word being typed, which the next letter links to
+  private lastLetter: Matter.Body | null = null;
+  // Spring from the pointer to the letter being dragged
+  private grabConstraint: Matter.Constraint | null = null;
+  // Letters hit hard enough to shatter this step, broken up once the step is done
+  private shattering = new Set<Matter.Body>();
+
+  // Settings the current bodies were built with, to tell what a new config changes
+  private effectiveSize: number;
+  private boundaries: BoundaryConfigs;
+  private container: Container | null;
+  // Gravity angle the heap settled under
+  private heapGravityAngle: number;
+
+  constructor({ width, height, config, fontFamily }: SimulationOptions) {
+    this.width = width;
+    this.height = height;
+    this.config = config;
+    this.fontFamily = fontFamily;
+    this.effectiveSize = config.fontSize * config.spacing;
+    this.boundaries = config.boundaries;
+    this.container = config.container;
+    this.heapGravityAngle = config.gravityAngle;
+
+    this.engine = Matter.Engine.create();
+    // Sleeping is how sediment mode tells which letters have come to rest
+    this.engine.enableSleeping = config.sediment;
+    const gravity = getGravityVector(config);
+    this.engine.gravity.x = gravity.x;
+    this.engine.gravity.y = gravity.y;
+
+    // Boundaries (rebuilt on resize and when the boundary settings change)
+    Matter.World.add(this.engine.world, createWalls(width, height, config.boundaries));
+    Matter.World.add(this.engine.world, createContainerBodies(config.container, width, height, config.boundaries[WallType.FLOOR]));
+
+    Matter.Events.on(this.engine, 'collisionStart', this.handleCollisionStart);
+    Matter.Events.on(this.engine, 'beforeUpdate', this.handleBeforeUpdate);
+    Matter.Events.on(this.engine, 'afterUpdate', this.handleAfterUpdate);
+  }
+
+  // Simulation clock in ms. Advances only while the engine steps, so timing typing by it
+  // is frame-rate independent in fixed-step mode.
+  public get time(): number {
+    return this.engine.timing.timestamp;
+  }
+
+  public step(count: number = 1) {
+    for (let i = 0; i < count; i++) {
+        Matter.Engine.update(this.engine, FIXED_DELTA);
+    }
+  }
+
+  public setRandom(random: SeededRandom) {
+    const physicsRandom = random.fork('physics');
+    this.random = () => physicsRandom.next();
+  }
+
+  public setFontFamily(fontFamily: string) {
+    this.fontFamily = fontFamily;
+  }
+
+  public setForceFields(fields: ForceField[]) {
+    this.forceFields = fields;
+  }
+
+  public setConfig(config: PhysicsConfig) {
+    // The rotating world only turns gravity; leave materials, springs and walls alone
+    if (isGravityTurnOnly(this.config, config)) {
+        this.config = config;
+        this.turnGravity();
+        return;
+    }
+
+    this.config = config;
+    const world = this.engine.world;
+
+    const gravity = getGravityVector(config);
+    const gravityChanged = gravity.x !== this.engine.gravity.x || gravity.y !== this.engine.gravity.y;
+    this.engine.gravity.x = gravity.x;
+    this.engine.gravity.y = gravity.y;
+
+    // The heap only holds while nothing about the world it settled in changes. Sleeping
+    // letters don't notice a new gravity by themselves either, so wake them.
+    this.engine.enableSleeping = config.sediment;
+    if (!config.sediment || gravityChanged) this.loosenHeap();
+
+    const currentEffectiveSize = config.fontSize * config.spacing;
+
+    // Check if effective size (font * spacing) changed significantly to trigger scaling
+    if (Math.abs(currentEffectiveSize - this.effectiveSize) > 0.1) {
+        // Static bodies don't rescale their mass, so melt the heap first
+        this.reviveLetters(this.getLetters().filter(b => (b as any).isSediment), false);
+        const scaleFactor = currentEffectiveSize / this.effectiveSize;
+        
+        this.getLetters().forEach(body => {
+            Matter.Body.scale(body, scaleFactor, scaleFactor);
+            const offsets = (body as any).glyphs
+                ? (body as any).glyphs.map((glyph: any) => glyph.offset)
+                : [(body as any).glyphOffset];
+            offsets.forEach((offset: { x: number, y: number } | undefined) => {
+                if (offset) {
+                    offset.x *= scaleFactor;
+                    offset.y *= scaleFactor;
+                }
+            });
+
+            // Jelly rings grow about their hub, springs and rest shape with them
+            getJellyNodes(body).forEach(node => {
+                Matter.Body.scale(node, scaleFactor, scaleFactor);
+                Matter.Body.setPosition(node, {
+                    x: body.position.x + (node.position.x - body.position.x) * scaleFactor,
+                    y: body.position.y + (node.position.y - body.position.y) * scaleFactor,
+                });
+            });
+            ((body as any).meshRest || []).forEach((point: { x: number, y: number }) => {
+                point.x *= scaleFactor;
+                point.y *= scaleFactor;
+            });
+        });
+        world.constraints.filter(c => c.label === 'jelly-spring').forEach(spring => {
+            spring.length *= scaleFactor;
+        });
+        
+        this.effectiveSize = currentEffectiveSize;
+    }
+    
+    this.syncBoundaries();
+    
+    // Keep live chains in step with the link settings; switching the mode off releases them
+    const links = world.constraints.filter(c => c.label === 'link');
+    if (!config.linkWords) {
+        Matter.World.remove(world, links);
+        this.lastLetter = null;
+    } else {
+        links.forEach(link => {
+            link.stiffness = config.linkStiffness;
+        });
+    }
+
+    world.constraints.filter(c => c.label === 'jelly-spring').forEach(spring => {
+        spring.stiffness = config.jellyStiffness;
+        spring.damping = config.jellyDamping;
+    });
+    
+    // Update existing bodies properties, keeping per-character materials (sediment picks them up when revived)
+    this.getLetters().filter(b => !(b as any).isSediment).forEach(body => applyMaterial(body, config));
+  }
+
+  // Moves the walls to a new viewport and pulls back letters the smaller box left outside
+  public resize(width: number, height: number) {
+    // The heap would be left hanging where the old walls were
+    if (width !== this.width || height !== this.height) {
+        this.reviveLetters(this.getLetters().filter(b => (b as any).isSediment), false);
+    }
+    this.width = width;
+    this.height = height;
+
+    const world = this.engine.world;
+    Matter.World.remove(world, world.bodies.filter(b => b.label === 'wall' || b.label === 'container'));
+    Matter.World.add(world, createWalls(width, height, this.config.boundaries));
+    Matter.World.add(world, createContainerBodies(this.config.container, width, height, this.config.boundaries[WallType.FLOOR]));
+    this.boundaries = this.config.boundaries;
+    this.container = this.config.container;
+
+    this.getLetters().forEach(b => {
+        // Reposition if outside bounds (allowing for some margin)
+        let newX = b.position.x;
+        let newY = b.position.y;
+        
+        if (newX > width - 20) newX = width - 50;
+        if (newX < 20) newX = 50;
+        // Ensure they don't fall through the new floor immediately
+        if (newY > height - 50) newY = height - 100; 
+        
+        if (newX !== b.position.x || newY !== b.position.y) {
+            translateLetter(b, newX, newY);
+            [b, ...getJellyNodes(b)].forEach(part => {
+                Matter.Sleeping.set(part, false);
+                Matter.Body.setVelocity(part, { x: 0, y: 0 }); // Reset velocity to prevent glitching through walls
+            });
+        }
+    });
+  }
+
+  public getLetters(): Matter.Body[] {
+    return this.engine.world.bodies.filter(b => b.label === 'letter');
+  }
+
+  // Shards of shattered letters, flying until they fade out
+  public getFragments(): Matter.Body[] {
+    return this.engine.world.bodies.filter(b => b.label === 'fragment');
+  }
+
+  public getSprites(): LetterSprite[] {
+    const now = this.time;
+    return [...this.getLetters(), ...this.getFragments()].map(b => {
+        const body = b as any;
+        return {
+            id: b.id,
+            x: b.position.x,
+            y: b.position.y,
+            angle: b.angle,
+            fade: getFadeProgress(b, now),
+            settled: !!body.isSediment,
+            color: body.color,
+            glyphs: body.glyphs || [{ char: body.char, offset: body.glyphOffset || { x: 0, y: 0 } }],
+            clip: body.clip,
+            meshRest: body.meshRest,
+            mesh: body.nodes && body.nodes.map((node: Matter.Body) => ({ x: node.position.x, y: node.position.y })),
+        };
+    });
+  }
+
+  public getObstacles(): Obstacle[] {
+    return Array.from<ObstacleEntry>(this.obstacles.values()).map(entry => entry.obstacle);
+  }
+
+  // Drops a run of letters starting at (x, y), laid out upright along the gravity baseline
+  public addText(text: string, startX?: number, startY?: number, color: string = '#292524') {
+    const world = this.engine.world;
+    const { fontSize, spacing } = this.config;
+    
+    // Calculate spawn position
+    // If no X provided, randomize it
+    const safeX = startX ?? this.random() * (this.width * 0.8) + (this.width * 0.1);
+    // Spawn inside the box when a ceiling would otherwise hold letters above the screen
+    const ceiling = this.config.boundaries[WallType.CEILING];
+    const safeY = startY ?? (ceiling.enabled || ceiling.wrap ? fontSize : -50);
+
+    // Lay the text out upright relative to the current gravity direction
+    const { gravityAngle } = this.config;
+    const baseline = getBaselineDirection(gravityAngle);
+    const up = getUpDirection(gravityAngle);
+    const uprightAngle = getUprightAngle(gravityAngle);
+
+    // Centers along the baseline, from the measured widths and kerning. Use Math.max(1, spacing)
+    // to ensure we always advance at least the visual width of the letter, even if the physics
+    // body is tiny (low spacing).
+    const chars = splitGraphemes(text);
+    const offsets = layoutGlyphs(chars, this.fontFamily, fontSize).map(offset => offset * Math.max(1, spacing));
+
+    chars.forEach((char, i) => {
+      if (char === ' ') {
+          this.lastLetter = null;
+          return;
+      }
+
+      const offsetX = offsets[i];
+      const x = safeX + baseline.x * offsetX;
+      const y = safeY + baseline.y * offsetX;
+      const options = {
+          // Very slight random rotation for natural look, but small enough to keep words legible initially
+          angle: uprightAngle + (this.random() - 0.5) * 0.05, 
+          render: {
+              fillStyle: 'transparent', 
+          },
+          label: 'letter'
+      };
+      // Jelly letters come with a ring of nodes and springs
+      const jelly = this.config.bodyShape === 'jelly' ? createJellyLetter(x, y, options.angle, this.config, options) : null;
+      const body = jelly ? jelly.hub : createLetterBody(char, x, y, this.config, this.fontFamily, options);
+      
+      // Attach custom data for rendering
+      (body as any).char = char;
+      (body as any).color = color;
+      (body as any).createdAt = this.time;
+      (body as any).hasCollided = false; // Track collision for audio
+      (body as any).home = { x: body.position.x, y: body.position.y, angle: uprightAngle };
+      applyMaterial(body, this.config);
+
+      // Add slight upward motion (against gravity) as letter appears
+      const drift = (this.random() - 0.5) * 0.5; // Tiny sideways variance for natural feel
+      [body, ...getJellyNodes(body)].forEach(part => {
+          Matter.Body.setVelocity(part, {
+              x: baseline.x * drift + up.x * 2,
+              y: baseline.y * drift + up.y * 2
+          });
+      });
+
+      Matter.World.add(world, jelly ? [body, ...jelly.nodes, ...jelly.springs] : body);
+
+      // Chain onto the previous letter of this word, unless it has fallen too far away to reach
+      const prev = this.lastLetter;
+      if (this.config.linkWords && prev && !(prev as any).isDying && world.bodies.includes(prev)) {
+          const halfAdvance = getGlyphAdvance((prev as any).char, char, this.fontFamily, fontSize) * Math.max(1, spacing) / 2;
+          const gap = Math.hypot(prev.position.x - body.position.x, prev.position.y - body.position.y);
+          if (gap < halfAdvance * 6) {
+              Matter.World.add(world, createLink(prev, body, baseline, halfAdvance, this.config.linkStiffness));
+          }
+      }
+      this.lastLetter = body;
+    });
+  }
+
+  // Drops a whole word as one rigid body, its first letter at (x, y) like addText
+  public addWord(word: string, startX?: number, startY?: number, color: string = '#292524') {
+    if (!word) return;
+
+    const { fontSize, gravityAngle } = this.config;
+    const safeX = startX ?? this.random() * (this.width * 0.8) + (this.width * 0.1);
+    const ceiling = this.config.boundaries[WallType.CEILING];
+    const safeY = startY ?? (ceiling.enabled || ceiling.wrap ? fontSize : -50);
+
+    const baseline = getBaselineDirection(gravityAngle);
+    const up = getUpDirection(gravityAngle);
+    // Same layout addText and the typing cursor use, so the word lands where it was previewed
+    const halfLength = getWordLength(splitGraphemes(word), this.config, this.fontFamily) / 2;
+
+    const body = createWordBody(
+        word,
+        safeX + baseline.x * halfLength,
+        safeY + baseline.y * halfLength,
+        this.config,
+        this.fontFamily,
+        {
+            angle: getUprightAngle(gravityAngle) + (this.random() - 0.5) * 0.05,
+            render: {
+                fillStyle: 'transparent',
+            },
+            label: 'letter'
+        }
+    );
+
+    (body as any).char = word;
+    (body as any).color = color;
+    (body as any).createdAt = this.time;
+    (body as any).hasCollided = false;
+    (body as any).home = { x: body.position.x, y: body.position.y, angle: getUprightAngle(gravityAngle) };
+    applyMaterial(body, this.config);
+
+    const drift = (this.random() - 0.5) * 0.5;
+    Matter.Body.setVelocity(body, {
+        x: baseline.x * drift + up.x * 2,
+        y: baseline.y * drift + up.y * 2
+    });
+
+    Matter.World.add(this.engine.world, body);
+    this.pendingWord = null;
+  }
+
+  // Shows the word being typed where addWord will drop it; an empty word hides it
+  public previewWord(word: string, x: number, y: number, color: string) {
+    this.pendingWord = word ? { word, x, y, color } : null;
+  }
+
+  // Marks a word boundary: in linked-words mode the next letter starts a new chain
+  public endWord() {
+    this.lastLetter = null;
+  }
+
+  public clearLetters() {
+    removeLetters(this.engine.world, [...this.getLetters(), ...this.getFragments()]);
+    this.shattering.clear();
+    this.lastLetter = null;
+    this.pendingWord = null;
+    this.sedimentVersion++;
+  }
+
+  // Caps the number of letters on screen by fading out the oldest; a whole word counts as its letters.
+  // Sediment doesn't count: the heap is meant to keep growing.
+  public pruneLetters(maxCount: number) {
+    const now = this.time;
+    // Get all letter bodies that are NOT currently dying
+    const activeBodies = this.getLetters().filter(b => !(b as any).isDying && !(b as any).isSediment);
+    
+    // If we have too many, mark the oldest ones for death
+    // Matter.js usually adds new bodies to the end of the array, so index 0 is oldest.
+    // Whole words count (and fade) as all of their letters at once.
+    let excess = activeBodies.reduce((total, body) => total + getLetterCount(body), 0) - maxCount;
+    for (const body of activeBodies) {
+      if (excess <= 0) break;
+      (body as any).isDying = true;
+      (body as any).dyingSince = now;
+      excess -= getLetterCount(body);
+    }
+
+    // Jelly letters are a dozen bodies each, so only the newest MAX_JELLY_LETTERS stay
+    const jellies = activeBodies.filter(b => (b as any).nodes && !(b as any).isDying);
+    jellies.slice(0, Math.max(0, jellies.length - MAX_JELLY_LETTERS)).forEach(body => {
+      (body as any).isDying = true;
+      (body as any).dyingSince = now;
+    });
+  }
+
+  // Adds an obstacle; returns false if it's too degenerate to have a body
+  public addObstacle(obstacle: Obstacle): boolean {
+    const bodies = createObstacleBodies(obstacle);
+    if (bodies.length === 0) return false;
+    this.obstacles.set(obstacle.id, { obstacle, bodies });
+    Matter.World.add(this.engine.world, bodies);
+    return true;
+  }
+
+  public removeObstacle(id: string) {
+    const entry = this.obstacles.get(id);
+    if (!entry) return;
+    Matter.World.remove(this.engine.world, entry.bodies);
+    this.obstacles.delete(id);
+  }
+
+  public clearObstacles() {
+    Array.from<string>(this.obstacles.keys()).forEach(id => this.removeObstacle(id));
+  }
+
+  // Grabs the topmost letter under the point with a soft spring, like Matter's mouse constraint
+  public grab(point: { x: number, y: number }) {
+    this.release();
+    // A jelly letter is grabbed by whichever node is under the pointer, so it stretches
+    const jellyNodes = this.getLetters().flatMap(getJellyNodes);
+    const body = Matter.Query.point([...this.getLetters(), ...jellyNodes], point).pop();
+    if (!body) return;
+    if (getOwner(body).isSediment) this.reviveLetters([getOwner(body)]);
+
+    this.grabConstraint = Matter.Constraint.create({
+        pointA: { x: point.x, y: point.y },
+        bodyB: body,
+        pointB: { x: point.x - body.position.x, y: point.y - body.position.y },
+        length: 0.01,
+        stiffness: 0.2,
+        angularStiffness: 1,
+        label: 'grab',
+        render: { visible: false }
+    });
+    Matter.Sleeping.set(body, false);
+    Matter.World.add(this.engine.world, this.grabConstraint);
+  }
+
+  public drag(point: { x: number, y: number }) {
+    const grab = this.grabConstraint;
+    if (!grab) return;
+    grab.pointA = { x: point.x, y: point.y };
+    if (grab.bodyB) Matter.Sleeping.set(grab.bodyB, false);
+  }
+
+  public release() {
+    if (!this.grabConstraint) return;
+    Matter.World.remove(this.engine.world, this.grabConstraint);
+    this.grabConstraint = null;
+  }
+
+  // Body-level part of a scene snapshot; the caller adds config, font and palette
+  public captureScene(): SceneBodies {
+    const letterBodies = this.getLetters();
+    const letters: LetterSnapshot[] = letterBodies.map(b => {
+          const body = b as any;
+          return {
+              char: body.char,
+              word: body.glyphs ? true : undefined,
+              jelly: body.nodes ? true : undefined,
+              color: body.color,
+              x: b.position.x,
+              y: b.position.y,
+              angle: body.nodes ? getJellyAngle(b) : b.angle,
+              velocity: { x: b.velocity.x, y: b.velocity.y },
+              angularVelocity: b.angularVelocity,
+              createdAt: body.createdAt,
+              hasCollided: !!body.hasCollided,
+              isDying: !!body.isDying,
+              dyingSince: body.isDying ? body.dyingSince : undefined,
+              sediment: body.isSediment ? true : undefined,
+              home: body.home,
+          };
+      });
+
+    const links: LinkSnapshot[] = this.engine.world.constraints
+      .filter(c => c.label === 'link')
+      .map(c => ({
+          a: letterBodies.indexOf(c.bodyA),
+          b: letterBodies.indexOf(c.bodyB),
+          pointA: { x: c.pointA.x, y: c.pointA.y },
+          pointB: { x: c.pointB.x, y: c.pointB.y },
+          length: c.length,
+      }))
+      .filter(link => link.a >= 0 && link.b >= 0);
+
+    return {
+      time: this.time,
+      width: this.width,
+      height: this.height,
+      letters,
+      links,
+      obstacles: this.getObstacles(),
+    };
+  }
+
+  // Replaces all letters and obstacles with the snapshot's, built with its config and font
+  public restoreScene(snapshot: SceneSnapshot) {
+    const world = this.engine.world;
+
+    // Adopt the snapshot's settings right away so bodies are built with them;
+    // a later setConfig with the same values then doesn't rescale what we add here.
+    this.config = snapshot.config;
+    this.fontFamily = snapshot.font;
+    this.effectiveSize = snapshot.config.fontSize * snapshot.config.spacing;
+
+    this.clearLetters();
+    this.clearObstacles();
+    snapshot.obstacles.forEach(obstacle => this.addObstacle(obstacle));
+    this.syncBoundaries();
+
+    // Ages are kept relative to the capture time, so fades pick up where they left off
+    const timeOffset = this.time - snapshot.time;
+
+    // Jelly rings and springs, added after the letters
+    const jellyParts: (Matter.Body | Matter.Constraint)[] = [];
+    const bodies = snapshot.letters.map(letter => {
+        const options = {
+            render: {
+                fillStyle: 'transparent',
+            },
+            label: 'letter'
+        };
+        let body: Matter.Body;
+        if (letter.jelly) {
+            const jelly = createJellyLetter(letter.x, letter.y, letter.angle, snapshot.config, options);
+            body = jelly.hub;
+            jellyParts.push(...jelly.nodes, ...jelly.springs);
+            jelly.nodes.forEach(node => Matter.Body.setVelocity(node, letter.velocity));
+        } else {
+            body = letter.word
+                ? createWordBody(letter.char, letter.x, letter.y, snapshot.config, snapshot.font, options)
+                : createLetterBody(letter.char, letter.x, letter.y, snapshot.config, snapshot.font, options);
+            // Place by body position (the center of mass for glyph shapes), as captured
+            Matter.Body.setPosition(body, { x: letter.x, y: letter.y });
+            Matter.Body.setAngle(body, letter.angle);
+            Matter.Body.setAngularVelocity(body, letter.angularVelocity);
+        }
+        Matter.Body.setVelocity(body, letter.velocity);
+
+        (body as any).char = letter.char;
+        applyMaterial(body, snapshot.config);
+        (body as any).color = letter.color;
+        (body as any).createdAt = letter.createdAt + timeOffset;
+        (body as any).hasCollided = letter.hasCollided;
+        (body as any).home = letter.home;
+        if (letter.isDying) {
+            (body as any).isDying = true;
+            (body as any).dyingSince = (letter.dyingSince ?? snapshot.time) + timeOffset;
+        }
+        return body;
+    });
+
+    Matter.World.add(world, [...bodies, ...jellyParts]);
+    snapshot.letters.forEach((letter, i) => {
+        if (letter.sediment && !this.reassembling) this.settleLetter(bodies[i]);
+    });
+
+    const links = (snapshot.links || [])
+      .filter(link => bodies[link.a] && bodies[link.b])
+      .map(link => Matter.Constraint.create({
+          bodyA: bodies[link.a],
+          bodyB: bodies[link.b],
+          pointA: link.pointA,
+          pointB: link.pointB,
+          length: link.length,
+          stiffness: snapshot.config.linkStiffness,
+          damping: 0.05,
+          label: 'link',
+          render: { visible: false }
+      }));
+    Matter.World.add(world, links);
+  }
+
+  // Reassemble mode springs every letter back to the slot it was typed into, rebuilding
+  // the text in mid-air. Letters pass through everything on the way and hang there until
+  // released, when they fall again.
+  public setReassembling(active: boolean) {
+    if (active === this.reassembling) return;
+    this.reassembling = active;
+    if (active) this.reviveLetters(this.getLetters().filter(b => (b as any).isSediment), false);
+    this.getLetters().forEach(b => [b, ...getJellyNodes(b)].forEach(part => {
+        part.collisionFilter.mask = active ? 0 : DEFAULT_MASK;
+        Matter.Sleeping.set(part, false);
+    }));
+  }
+
+  public destroy() {
+    Matter.Events.off(this.engine, 'collisionStart', this.handleCollisionStart);
+    Matter.Events.off(this.engine, 'beforeUpdate', this.handleBeforeUpdate);
+    Matter.Events.off(this.engine, 'afterUpdate', this.handleAfterUpdate);
+    Matter.World.clear(this.engine.world, false);
+    Matter.Engine.clear(this.engine);
+  }
+
+  // Rebuilds the boundary walls and the container if their settings changed. The
+  // container bounces like the floor, so it follows the floor's settings too.
+  private syncBoundaries() {
+    const world = this.engine.world;
+    const { boundaries, container } = this.config;
+    if (boundaries !== this.boundaries) {
+        Matter.World.remove(world, world.bodies.filter(b => b.label === 'wall'));
+        Matter.World.add(world, createWalls(this.width, this.height, boundaries));
+    }
+    if (container !== this.container || boundaries !== this.boundaries) {
+        // Sediment resting on the old outline would be left hanging
+        if (container !== this.container) this.reviveLetters(this.getLetters().filter(b => (b as any).isSediment), false);
+        Matter.World.remove(world, world.bodies.filter(b => b.label === 'container'));
+        Matter.World.add(world, createContainerBodies(container, this.width, this.height, boundaries[WallType.FLOOR]));
+    }
+    this.boundaries = boundaries;
+    this.container = container;
+  }
+
+  // Points gravity along the config's angle. A heap holds through small turns, so a
+  // slowly rotating world can still settle; past SEDIMENT_TURN_TOLERANCE it comes loose.
+  private turnGravity() {
+    const gravity = getGravityVector(this.config);
+    this.engine.gravity.x = gravity.x;
+    this.engine.gravity.y = gravity.y;
+    if (Math.abs(normalizeAngle(this.config.gravityAngle - this.heapGravityAngle)) > SEDIMENT_TURN_TOLERANCE) {
+        this.loosenHeap();
+    }
+  }
+
+  // Melts the heap and wakes every sleeping letter, for a world that no longer holds them
+  private loosenHeap() {
+    this.reviveLetters(this.getLetters().filter(b => (b as any).isSediment), false);
+    this.getLetters().forEach(b => [b, ...getJellyNodes(b)].forEach(part => Matter.Sleeping.set(part, false)));
+    this.heapGravityAngle = this.config.gravityAngle;
+  }
+
+  // Freezes a resting letter into the heap: static bodies cost almost nothing per step
+  private settleLetter(body: Matter.Body) {
+    [body, ...getJellyNodes(body)].forEach(part => {
+        Matter.Sleeping.set(part, false);
+        Matter.Body.setStatic(part, true);
+    });
+    (body as any).isSediment = true;
+    (body as any).sleepingSince = undefined;
+    this.sedimentVersion++;
+  }
+
+  // Turns heap letters back into moving ones. With `cascade`, letters resting on them
+  // (above, against gravity) come loose too instead of hanging in mid-air.
+  private reviveLetters(bodies: Matter.Body[], cascade: boolean = true) {
+    if (bodies.length === 0) return;
+    const up = getUpDirection(this.config.gravityAngle);
+    const margin = this.config.fontSize * 0.25;
+    const queue = [...bodies];
+    let heap = cascade ? this.getLetters().filter(b => (b as any).isSediment && !bodies.includes(b)) : [];
+
+    while (queue.length > 0) {
+        const body = queue.pop()!;
+        if ((body as any).isSediment) {
+            [body, ...getJellyNodes(body)].forEach(part => Matter.Body.setStatic(part, false));
+            applyMaterial(body, this.config);
+            (body as any).isSediment = false;
+        }
+        [body, ...getJellyNodes(body)].forEach(part => Matter.Sleeping.set(part, false));
+
+        if (heap.length === 0) continue;
+        const { min, max } = body.bounds;
+        const height = body.position.x * up.x + body.position.y * up.y;
+        const resting = heap.filter(other =>
+            other.bounds.min.x <= max.x + margin && other.bounds.max.x >= min.x - margin &&
+            other.bounds.min.y <= max.y + margin && other.bounds.max.y >= min.y - margin &&
+            other.position.x * up.x + other.position.y * up.y > height
+        );
+        if (resting.length > 0) {
+            heap = heap.filter(other => !resting.includes(other));
+            queue.push(...resting);
+        }
+    }
+    this.sedimentVersion++;
+  }
+
+  // Reports impacts: every letter's first contact (the landing sound), then later hits
+  // at least impactThreshold hard, at most one per impactRateLimit for the letters involved.
+  // Hard hits on the heap also knock its letters loose.
+  private handleCollisionStart = (event: any) => {
+    const pairs = event.pairs;
+    const now = this.time;
+    const { impactThreshold, impactRateLimit } = this.config;
+    const impacts: CollisionEvent[] = [];
+    const struck: Matter.Body[] = [];
+
+    for (let i = 0; i < pairs.length; i++) {
+        // Pairs report the colliding parts; glyph-shaped letters keep their data on the parent,
+        // and a jelly letter's nodes on its hub
+        const partA = pairs[i].bodyA.parent as any;
+        const partB = pairs[i].bodyB.parent as any;
+        const bodyA = getOwner(partA);
+        const bodyB = getOwner(partB);
+        if (bodyA.label !== 'letter' && bodyB.label !== 'letter') continue;
+
+        if (bodyA.label === 'letter' && bodyB.label === 'letter' && bodyA.isSediment !== bodyB.isSediment) {
+            const [settled, mover] = bodyA.isSediment ? [bodyA, bodyB] : [bodyB, bodyA];
+            if (mover.speed > SEDIMENT_REVIVE_SPEED && !struck.includes(settled)) struck.push(settled);
+        }
+
+        const [letter, other] = bodyA.label === 'letter' ? [bodyA, bodyB] : [bodyB, bodyA];
+        // Shards are debris, not something letters hit
+        if (other.label === 'fragment') continue;
+        const isLetterPair = other.label === 'letter';
+        const { normal } = pairs[i].collision;
+        const speed = Math.abs(
+            (partA.velocity.x - partB.velocity.x) * normal.x + (partA.velocity.y - partB.velocity.y) * normal.y
+        );
+
+        // Jelly letters squish instead
+        if (this.config.shatter && speed >= this.config.shatterSpeed) {
+            [letter, other].forEach(body => {
+                if (body.label === 'letter' && !body.isSediment && !body.isDying && !body.nodes) this.shattering.add(body);
+            });
+        }
+
+        const firstContact = !letter.hasCollided || (isLetterPair && !other.hasCollided);
+        const isRested = (body: any) => body.lastImpactAt === undefined || now - body.lastImpactAt >= impactRateLimit;
+        if (!firstContact && (speed < impactThreshold || !isRested(letter) || (isLetterPair && !isRested(other)))) continue;
+
+        letter.hasCollided = true;
+        letter.lastImpactAt = now;
+        if (isLetterPair) {
+            other.hasCollided = true;
+            other.lastImpactAt = now;
+        }
+
+        impacts.push({
+            kind: isLetterPair ? 'letter-letter' : other.label === 'wall' || other.label === 'container' ? 'letter-wall' : 'letter-obstacle',
+            a: describeCollisionBody(letter),
+            b: isLetterPair ? describeCollisionBody(other) : null,
+            wallType: other.wallType,
+            point: getContactPoint(pairs[i].collision),
+            speed,
+            firstContact,
+            time: now,
+        });
+    }
+
+    this.reviveLetters(struck);
+
+    if (this.onCollision) {
+        impacts.forEach(impact => this.onCollision!(impact));
+    }
+  };
+
+  // Cleanup, force fields and edge handling, run before each physics update.
+  // Timing reads the simulation clock rather than Date.now() so fades replay identically.
+  private handleBeforeUpdate = (event: any) => {
+    const now = event.timestamp;
+    const world = this.engine.world;
+    const bodies = Matter.Composite.allBodies(world);
+
+    removeLetters(world, bodies.filter(body => (body as any).isDying && now - (body as any).dyingSince >= FADE_DURATION));
+
+    // Shards fly for a moment, then fade out like pruned letters
+    bodies.forEach(body => {
+        const shard = body as any;
+        if (body.label === 'fragment' && !shard.isDying && now - shard.createdAt >= FRAGMENT_LIFETIME) {
+            shard.isDying = true;
+            shard.dyingSince = now;
+        }
+    });
+
+    // Force fields push on letters only (jelly rings included); obstacles and walls are static anyway
+    const letters = bodies.filter(b => b.label === 'letter');
+    if (this.forceFields.length > 0) {
+        const pushed = bodies.filter(b => b.label === 'letter' || b.label === 'jelly-node');
+        this.forceFields.forEach(field => applyForceField(field, pushed));
+    }
+
+    // Letters typed or restored mid-reassembly fly home like the rest; shards just fall
+    if (this.reassembling) {
+        letters.filter(b => (b as any).home && !(b as any).isDying).forEach(body => {
+            [body, ...getJellyNodes(body)].forEach(part => {
+                part.collisionFilter.mask = 0;
+            });
+            pullHome(body, this.engine.gravity);
+        });
+    }
+
+    // Wrap-around edges: letters fully past a wrapping edge reappear at the opposite side.
+    // Letters that escape through an open edge are gone for good, so drop them.
+    const { boundaries } = this.config;
+    const w = this.width;
+    const h = this.height;
+    const isOpen = (type: WallType) => !boundaries[type].enabled && !boundaries[type].wrap;
+    const escaped: Matter.Body[] = [];
+
+    letters.forEach(body => {
+        const { min, max } = body.bounds;
+
+        if ((isOpen(WallType.FLOOR) && min.y > h + ESCAPE_MARGIN) ||
+            (isOpen(WallType.WALL_LEFT) && max.x < -ESCAPE_MARGIN) ||
+            (isOpen(WallType.WALL_RIGHT) && min.x > w + ESCAPE_MARGIN)) {
+            escaped.push(body);
+            return;
+        }
+
+        const halfW = (max.x - min.x) / 2;
+        const halfH = (max.y - min.y) / 2;
+        let { x, y } = body.position;
+
+        if (boundaries[WallType.WALL_RIGHT].wrap && min.x > w) x = -halfW;
+        else if (boundaries[WallType.WALL_LEFT].wrap && max.x < 0) x = w + halfW;
+
+        if (boundaries[WallType.FLOOR].wrap && min.y > h) y = -halfH;
+        else if (boundaries[WallType.CEILING].wrap && max.y < 0 && body.velocity.y < 0) y = h + halfH;
+
+        if (x !== body.position.x || y !== body.position.y) {
+            // Teleport without turning the jump into velocity
+            translateLetter(body, x, y, false);
+        }
+    });
+
+    removeLetters(world, escaped);
+
+    if (this.onStep) this.onStep(now);
+  };
+
+  // Word chains snap when a link is stretched past its break strength, e.g. by a hard impact,
+  // letters that hit hard enough shatter, and in sediment mode letters that have come to
+  // rest join the heap
+  private handleAfterUpdate = () => {
+    const world = this.engine.world;
+    const breakStretch = this.config.linkBreakStrength;
+    const snapped = world.constraints.filter(link => {
+        if (link.label !== 'link') return false;
+        const a = Matter.Constraint.pointAWorld(link);
+        const b = Matter.Constraint.pointBWorld(link);
+        return Math.hypot(a.x - b.x, a.y - b.y) - link.length > breakStretch;
+    });
+    if (snapped.length > 0) {
+        Matter.World.remove(world, snapped);
+    }
+
+    // Swap letters that hit hard enough for their shards
+    if (this.shattering.size > 0) {
+        const broken = Array.from<Matter.Body>(this.shattering).filter(body => world.bodies.includes(body));
+        this.shattering.clear();
+        const shards = broken.flatMap(body => createFragments(body, this.config, this.random));
+        shards.forEach(shard => {
+            (shard as any).createdAt = this.time;
+        });
+        if (this.grabConstraint && broken.includes(this.grabConstraint.bodyB)) this.release();
+        removeLetters(world, broken);
+        Matter.World.add(world, shards);
+    }
+
+    // Sediment: letters that have slept long enough freeze where they lie (not while held in the air)
+    if (!this.config.sediment || this.reassembling) return;
+    const now = this.time;
+    this.getLetters().forEach(b => {
+        const body = b as any;
+        if (body.isSediment || body.isDying) return;
+        if (!b.isSleeping) {
+            body.sleepingSince = undefined;
+        } else if (body.sleepingSince === undefined) {
+            body.sleepingSince = now;
+        } else if (now - body.sleepingSince >= SEDIMENT_DELAY) {
+            this.settleLetter(b);
+        }
+    });
+  };
+}
@@ -0,0 +1,156 @@
+import { CollisionEvent } from '../types';
+import { cacheGlyphShape, cacheGlyphWidth } from './glyphService';
+import { SeededRandom } from './randomService';
+import { SimulationService } from './simulationService';
+import type { GlyphShapes, GlyphWidths, WorkerEvent, WorkerRequest } from './workerSimulation';
+import { TRANSFORM_STRIDE } from './workerSimulation';
+
+// Web Worker entry point: owns a SimulationService and answers WorkerSimulation's
+// messages, replying to every batch of steps with the letters' packed transforms.
+
+let simulation: SimulationService | null = null;
+// Impacts since the last frame
+let collisions: CollisionEvent[] = [];
+// Ids of the sprites whose glyphs and color the main thread already has
+let sentIds = new Set<number>();
+
+const post = (event: WorkerEvent, transfer: Transferable[] = []) => {
+  self.postMessage(event, { transfer });
+};
+
+const cacheGlyphs = ({ shapes, widths }: { shapes: GlyphShapes, widths: GlyphWidths }, fontFamily: string, fontSize: number) => {
+  Object.keys(shapes).forEach(char => cacheGlyphShape(char, fontFamily, fontSize, shapes[char]));
+  Object.keys(widths).forEach(char => cacheGlyphWidth(char, fontFamily, fontSize, widths[char]));
+};
+
+const sendFrame = (sim: SimulationService) => {
+  const sprites = sim.getSprites();
+  const ids = new Uint32Array(sprites.length);
+  const transforms = new Float32Array(sprites.length * TRANSFORM_STRIDE);
+  let meshLength = 0;
+
+  sprites.forEach((sprite, i) => {
+    ids[i] = sprite.id;
+    transforms[i * TRANSFORM_STRIDE] = sprite.x;
+    transforms[i * TRANSFORM_STRIDE + 1] = sprite.y;
+    transforms[i * TRANSFORM_STRIDE + 2] = sprite.angle;
+    transforms[i * TRANSFORM_STRIDE + 3] = sprite.fade;
+    transforms[i * TRANSFORM_STRIDE + 4] = sprite.settled ? 1 : 0;
+    transforms[i * TRANSFORM_STRIDE + 5] = sprite.mesh ? meshLength : -1;
+    if (sprite.mesh) meshLength += sprite.mesh.length * 2;
+  });
+
+  const meshes = new Float32Array(meshLength);
+  let meshOffset = 0;
+  sprites.forEach(sprite => {
+    sprite.mesh?.forEach(point => {
+      meshes[meshOffset++] = point.x;
+      meshes[meshOffset++] = point.y;
+    });
+  });
+
+  const fresh = sprites.filter(sprite => !sentIds.has(sprite.id));
+  sentIds = new Set(sprites.map(sprite => sprite.id));
+
+  post({
+    type: 'frame',
+    time: sim.time,
+    ids,
+    transforms,
+    meshes,
+    sprites: fresh.map(({ id, color, glyphs, clip, meshRest }) => ({ id, color, glyphs, clip, meshRest })),
+    collisions,
+    sedimentVersion: sim.sedimentVersion,
+  }, [ids.buffer, transforms.buffer, meshes.buffer]);
+  collisions = [];
+};
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+
+  if (request.type === 'init') {
+    simulation?.destroy();
+    simulation = new SimulationService(request.options);
+    simulation.onCollision = (impact) => {
+      collisions.push(impact);
+    };
+    sentIds = new Set();
+    return;
+  }
+
+  const sim = simulation;
+  if (!sim) return;
+
+  switch (request.type) {
+    case 'step':
+      sim.step(request.count);
+      sendFrame(sim);
+      break;
+    case 'seed':
+      sim.setRandom(new SeededRandom(request.seed));
+      break;
+    case 'config':
+      sim.setConfig(request.config);
+      // A size change rescales glyph offsets, so describe every letter again
+      sentIds = new Set();
+      break;
+    case 'gravity':
+      sim.setConfig({ ...sim.config, gravityAngle: request.angle });
+      break;
+    case 'font':
+      sim.setFontFamily(request.fontFamily);
+      break;
+    case 'forceFields':
+      sim.setForceFields(request.fields);
+      break;
+    case 'resize':
+      sim.resize(request.width, request.height);
+      break;
+    case 'addText':
+      cacheGlyphs(request, sim.fontFamily, sim.config.fontSize);
+      sim.addText(request.text, request.x, request.y, request.color);
+      break;
+    case 'addWord':
+      cacheGlyphs(request, sim.fontFamily, sim.config.fontSize);
+      sim.addWord(request.word, request.x, request.y, request.color);
+      break;
+    case 'endWord':
+      sim.endWord();
+      break;
+    case 'clearLetters':
+      sim.clearLetters();
+      break;
+    case 'prune':
+      sim.pruneLetters(request.maxCount);
+      break;
+    case 'addObstacle':
+      sim.addObstacle(request.obstacle);
+      break;
+    case 'removeObstacle':
+      sim.removeObstacle(request.id);
+      break;
+    case 'clearObstacles':
+      sim.clearObstacles();
+      break;
+    case 'grab':
+      sim.grab(request.point);
+      break;
+    case 'drag':
+      sim.drag(request.point);
+      break;
+    case 'release':
+      sim.release();
+      break;
+    case 'reassemble':
+      sim.setReassembling(request.active);
+      break;
+    case 'capture':
+      post({ type: 'scene', requestId: request.requestId, scene: sim.captureScene() });
+      break;
+    case 'restore':
+      cacheGlyphs(request, request.snapshot.font, request.snapshot.config.fontSize);
+      sim.restoreScene(request.snapshot);
+      sentIds = new Set();
+      break;
+  }
+};
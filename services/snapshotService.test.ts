@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseSnapshot, SNAPSHOT_VERSION } from './snapshotService';
+
+const snapshot = (fields: Record<string, unknown> = {}) => JSON.stringify({
+  version: SNAPSHOT_VERSION,
+  time: 1200,
+  width: 800,
+  height: 600,
+  letters: [],
+  config: { fontSize: 48 },
+  font: 'monospace',
+  ...fields,
+});
+
+describe('parseSnapshot', () => {
+  it('reads a snapshot, filling in obstacles and force fields older files lack', () => {
+    const parsed = parseSnapshot(snapshot());
+    expect(parsed.time).toBe(1200);
+    expect(parsed.font).toBe('monospace');
+    expect(parsed.obstacles).toEqual([]);
+    expect(parsed.forceFields).toEqual([]);
+  });
+
+  it('keeps the obstacles a snapshot has', () => {
+    const obstacles = [{ id: 'o1', kind: 'circle', points: [{ x: 10, y: 20 }], radius: 5 }];
+    expect(parseSnapshot(snapshot({ obstacles })).obstacles).toEqual(obstacles);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseSnapshot('{ letters:')).toThrow('not valid JSON');
+  });
+
+  it('rejects data without a version', () => {
+    expect(() => parseSnapshot(JSON.stringify({ letters: [] }))).toThrow('missing its version');
+  });
+
+  it('rejects snapshots from a newer version', () => {
+    expect(() => parseSnapshot(snapshot({ version: SNAPSHOT_VERSION + 1 }))).toThrow('newer version');
+  });
+
+  it('rejects snapshots missing their letters, config or font', () => {
+    expect(() => parseSnapshot(snapshot({ letters: undefined }))).toThrow('incomplete');
+    expect(() => parseSnapshot(snapshot({ config: undefined }))).toThrow('incomplete');
+    expect(() => parseSnapshot(snapshot({ font: 3 }))).toThrow('incomplete');
+  });
+});
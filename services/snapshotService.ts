@@ -0,0 +1,72 @@
+import { SavedScene, SceneSnapshot } from '../types';
+
+export const SNAPSHOT_VERSION = 1;
+const GALLERY_STORAGE_KEY = 'wordfall.scenes';
+
+/**
+ * Parses and checks a snapshot from JSON text, e.g. an imported file.
+ * Throws with a readable message if the data is not a snapshot this version understands.
+ */
+export const parseSnapshot = (json: string): SceneSnapshot => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Scene file is not valid JSON');
+  }
+
+  if (!data || typeof data !== 'object' || typeof data.version !== 'number') {
+    throw new Error('Scene file is missing its version');
+  }
+  if (data.version > SNAPSHOT_VERSION) {
+    throw new Error(`Scene was saved by a newer version (v${data.version}); this app reads up to v${SNAPSHOT_VERSION}`);
+  }
+  if (!Array.isArray(data.letters) || !data.config || typeof data.font !== 'string') {
+    throw new Error('Scene file is incomplete');
+  }
+
+  return {
+    ...data,
+    obstacles: Array.isArray(data.obstacles) ? data.obstacles : [],
+    forceFields: Array.isArray(data.forceFields) ? data.forceFields : [],
+  };
+};
+
+export const loadGallery = (): SavedScene[] => {
+  try {
+    const raw = localStorage.getItem(GALLERY_STORAGE_KEY);
+    if (!raw) return [];
+    const scenes = JSON.parse(raw);
+    return Array.isArray(scenes) ? scenes : [];
+  } catch (error) {
+    console.warn('Failed to read saved scenes, starting with an empty gallery:', error);
+    return [];
+  }
+};
+
+// Persists the whole gallery. Throws if storage is full so the caller can keep its old state.
+export const saveGallery = (scenes: SavedScene[]) => {
+  try {
+    localStorage.setItem(GALLERY_STORAGE_KEY, JSON.stringify(scenes));
+  } catch (error) {
+    throw new Error(`Could not save scenes (storage may be full): ${(error as Error).message}`);
+  }
+};
+
+export const createSavedScene = (name: string, snapshot: SceneSnapshot): SavedScene => ({
+  id: `scene-${Date.now()}-${Math.floor(Math.random() * 1e6)}`,
+  name,
+  savedAt: Date.now(),
+  snapshot,
+});
+
+// Offers the snapshot as a .json download
+export const downloadSnapshot = (snapshot: SceneSnapshot, name: string) => {
+  const blob = new Blob([JSON.stringify(snapshot, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'wordfall-scene'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,146 @@
+import { DEFAULT_LETTER_COLOR, getFadeStyle, getSpriteAngle, GLYPH_BASELINE_SHIFT, LETTER_SHADOW, RenderFrame, Renderer } from './rendererService';
+import type { LetterSprite } from './simulationService';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Filter and clip ids must be unique across every renderer on the page
+let nextSvgId = 0;
+
+interface SpriteNode {
+  group: SVGGElement;
+  // What the text children were built from, to rebuild only when it changes
+  glyphKey: string;
+  clipId?: string;
+}
+
+/**
+ * Keeps one <g> per letter in an <svg>, moved by its transform each frame. The text
+ * stays real text: screen readers can read the poem from the element's label, and the
+ * markup can be saved as a vector image. Jelly letters are drawn rigid.
+ */
+export class SvgRenderer implements Renderer {
+  public readonly kind = 'svg';
+  public readonly element: SVGSVGElement;
+
+  private defs: SVGDefsElement;
+  private layer: SVGGElement;
+  private nodes = new Map<number, SpriteNode>();
+  private fontKey = '';
+  private idKey = '';
+  private svgId = nextSvgId++;
+
+  constructor() {
+    this.element = document.createElementNS(SVG_NS, 'svg');
+    this.element.setAttribute('role', 'img');
+    this.element.setAttribute('aria-label', '');
+
+    this.defs = document.createElementNS(SVG_NS, 'defs');
+    const filter = document.createElementNS(SVG_NS, 'filter');
+    filter.setAttribute('id', `letter-shadow-${this.svgId}`);
+    filter.setAttribute('x', '-50%');
+    filter.setAttribute('y', '-50%');
+    filter.setAttribute('width', '200%');
+    filter.setAttribute('height', '200%');
+    const shadow = document.createElementNS(SVG_NS, 'feDropShadow');
+    shadow.setAttribute('dx', String(LETTER_SHADOW.offsetX));
+    shadow.setAttribute('dy', String(LETTER_SHADOW.offsetY));
+    // A canvas shadowBlur is twice the Gaussian's standard deviation
+    shadow.setAttribute('stdDeviation', String(LETTER_SHADOW.blur / 2));
+    shadow.setAttribute('flood-color', LETTER_SHADOW.color);
+    filter.appendChild(shadow);
+    this.defs.appendChild(filter);
+    this.element.appendChild(this.defs);
+
+    this.layer = document.createElementNS(SVG_NS, 'g');
+    this.layer.setAttribute('filter', `url(#letter-shadow-${this.svgId})`);
+    this.layer.setAttribute('font-weight', 'bold');
+    this.layer.setAttribute('text-anchor', 'middle');
+    this.layer.setAttribute('dominant-baseline', 'middle');
+    this.element.appendChild(this.layer);
+  }
+
+  // Vector output has no backing store to scale, so the pixel ratio doesn't matter
+  public resize(width: number, height: number, _pixelRatio: number) {
+    this.element.setAttribute('width', String(width));
+    this.element.setAttribute('height', String(height));
+    this.element.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  }
+
+  public draw(frame: RenderFrame) {
+    const fontKey = `${frame.fontFamily}|${frame.fontSize}`;
+    if (fontKey !== this.fontKey) {
+        this.fontKey = fontKey;
+        this.layer.setAttribute('font-family', frame.fontFamily);
+        this.layer.setAttribute('font-size', String(frame.fontSize));
+    }
+
+    const seen = new Set<number>();
+    frame.sprites.forEach(sprite => {
+        seen.add(sprite.id);
+        this.updateNode(sprite);
+    });
+    this.nodes.forEach((node, id) => {
+        if (seen.has(id)) return;
+        node.group.remove();
+        if (node.clipId) this.defs.querySelector(`#${node.clipId}`)?.remove();
+        this.nodes.delete(id);
+    });
+
+    // Relabel only when letters come or go, in the order they were typed
+    const ids = frame.sprites.map(sprite => sprite.id).sort((a, b) => a - b);
+    const idKey = ids.join(',');
+    if (idKey !== this.idKey) {
+        this.idKey = idKey;
+        const byId = new Map(frame.sprites.map(sprite => [sprite.id, sprite]));
+        const label = ids.map(id => byId.get(id)!.glyphs.map(glyph => glyph.char).join('')).join('');
+        this.element.setAttribute('aria-label', label);
+    }
+  }
+
+  public destroy() {
+    this.nodes.clear();
+    this.element.replaceChildren();
+  }
+
+  private updateNode(sprite: LetterSprite) {
+    let node = this.nodes.get(sprite.id);
+    const glyphKey = sprite.glyphs.map(glyph => `${glyph.char}@${glyph.offset.x},${glyph.offset.y}`).join('|');
+    if (!node) {
+        node = { group: document.createElementNS(SVG_NS, 'g'), glyphKey: '' };
+        this.layer.appendChild(node.group);
+        this.nodes.set(sprite.id, node);
+    }
+
+    if (node.glyphKey !== glyphKey) {
+        node.glyphKey = glyphKey;
+        node.group.replaceChildren(...sprite.glyphs.map(glyph => {
+            const text = document.createElementNS(SVG_NS, 'text');
+            text.setAttribute('x', String(glyph.offset.x));
+            text.setAttribute('y', String(glyph.offset.y + GLYPH_BASELINE_SHIFT));
+            text.textContent = glyph.char;
+            return text;
+        }));
+    }
+
+    // A shard shows just its piece of the glyph
+    if (sprite.clip && !node.clipId) {
+        node.clipId = `letter-clip-${this.svgId}-${sprite.id}`;
+        const clipPath = document.createElementNS(SVG_NS, 'clipPath');
+        clipPath.setAttribute('id', node.clipId);
+        const rect = document.createElementNS(SVG_NS, 'rect');
+        rect.setAttribute('x', String(-sprite.clip.width / 2));
+        rect.setAttribute('y', String(-sprite.clip.height / 2));
+        rect.setAttribute('width', String(sprite.clip.width));
+        rect.setAttribute('height', String(sprite.clip.height));
+        clipPath.appendChild(rect);
+        this.defs.appendChild(clipPath);
+        node.group.setAttribute('clip-path', `url(#${node.clipId})`);
+    }
+
+    const { alpha, scale } = getFadeStyle(sprite);
+    const angle = getSpriteAngle(sprite) * 180 / Math.PI;
+    node.group.setAttribute('transform', `translate(${sprite.x} ${sprite.y}) rotate(${angle}) scale(${scale})`);
+    node.group.setAttribute('opacity', String(Math.max(0, alpha)));
+    node.group.setAttribute('fill', sprite.color || DEFAULT_LETTER_COLOR);
+  }
+}
@@ -0,0 +1,23 @@
+// Text is handled in grapheme clusters: what a reader sees as one character, whether
+// that's an accented letter built from combining marks, a flag, a skin-toned emoji or a
+// family joined by ZWJs. Every cluster becomes one letter body.
+
+// Browsers without Intl.Segmenter fall back to code points, which still keeps surrogate
+// pairs whole
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+  : null;
+
+export const splitGraphemes = (text: string): string[] =>
+  segmenter ? Array.from(segmenter.segment(text), ({ segment }) => segment) : Array.from<string>(text);
+
+// Key event values that type a character, rather than name a key like "Enter" or "Shift"
+export const isCharacterKey = (key: string): boolean => splitGraphemes(key).length === 1;
+
+// Clusters the browser draws from a color emoji font. Their colors are their own, so
+// backends that tint a glyph mask draw them untinted instead.
+export const isColorGlyph = (cluster: string): boolean => /\p{Emoji_Presentation}|\uFE0F/u.test(cluster);
+
+// The cluster's first character with any accents split off, for classifying it
+// (`é` as a vowel, `👍🏽` as the symbol it's built on)
+export const getBaseCharacter = (cluster: string): string => Array.from<string>(cluster.normalize('NFD'))[0] ?? '';
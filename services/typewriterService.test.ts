@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { cacheGlyphWidth } from './glyphService';
+import type { Simulation } from './simulationService';
+import { TypewriterService, WORD_PAUSE_MS } from './typewriterService';
+
+const FONT = 'test-typewriter';
+const SIZE = 40;
+// a and b kern 2 px tighter as a pair; spaces are 10 wide
+const WIDTHS: Record<string, number> = { a: 20, b: 30, ab: 48, ba: 50, ' ': 10, 'a ': 30, ' b': 40 };
+Object.entries(WIDTHS).forEach(([text, width]) => cacheGlyphWidth(text, FONT, SIZE, width));
+
+// Stands in for the simulation, recording what the typewriter drops into it
+const createSimulation = (config: { wholeWords?: boolean, gravityAngle?: number } = {}) => {
+  const calls = {
+    letters: [] as { char: string, x: number, y: number }[],
+    words: [] as { word: string, x: number, y: number }[],
+    wordEnds: 0,
+  };
+  const simulation = {
+    width: 800,
+    height: 600,
+    fontFamily: FONT,
+    config: { fontSize: SIZE, spacing: 1, gravityAngle: 0, wholeWords: false, ...config },
+    addText: (char: string, x: number, y: number) => calls.letters.push({ char, x, y }),
+    addWord: (word: string, x: number, y: number) => calls.words.push({ word, x, y }),
+    previewWord: () => {},
+    endWord: () => { calls.wordEnds++; },
+    pruneLetters: () => {},
+  } as unknown as Simulation;
+  return { simulation, calls };
+};
+
+const typeAll = (typewriter: TypewriterService, text: string, start: number = 0) =>
+  Array.from(text).map((char, i) => typewriter.type(char, start + i * 10));
+
+describe('TypewriterService', () => {
+  it('sets each letter its measured advance after the last, kerning included', () => {
+    const { simulation, calls } = createSimulation();
+    const typewriter = new TypewriterService(simulation);
+    typewriter.setAnchor({ x: 100, y: 200 }, 0);
+    typeAll(typewriter, 'aba');
+
+    // 10 + 15 - 2, then 15 + 10 - 0
+    expect(calls.letters).toEqual([
+      { char: 'a', x: 100, y: 200 },
+      { char: 'b', x: 123, y: 200 },
+      { char: 'a', x: 148, y: 200 },
+    ]);
+  });
+
+  it('moves the cursor along a space and ends the word there', () => {
+    const { simulation, calls } = createSimulation();
+    const typewriter = new TypewriterService(simulation);
+    typewriter.setAnchor({ x: 100, y: 200 }, 0);
+    typeAll(typewriter, 'a b');
+
+    expect(calls.wordEnds).toBe(1);
+    // a to space: 10 + 5; space to b: 5 + 15
+    expect(calls.letters.map(letter => letter.x)).toEqual([100, 135]);
+  });
+
+  it('starts a new word at the origin after a pause', () => {
+    const { simulation, calls } = createSimulation();
+    const typewriter = new TypewriterService(simulation);
+    let words = 0;
+    typewriter.onNewWord = () => { words++; };
+    typewriter.setAnchor({ x: 100, y: 200 }, 0);
+    typewriter.type('a', 10);
+    typewriter.type('b', 10 + WORD_PAUSE_MS + 1);
+
+    expect(words).toBe(1);
+    expect(calls.letters.map(letter => letter.x)).toEqual([100, 100]);
+  });
+
+  it('wraps back to the origin once the line runs past its end', () => {
+    const { simulation, calls } = createSimulation();
+    const typewriter = new TypewriterService(simulation);
+    // The line ends 320 px right of center, at x = 720
+    typewriter.setAnchor({ x: 700, y: 200 }, 0);
+    const wrapped = typeAll(typewriter, 'ab');
+
+    expect(wrapped).toEqual([false, true]);
+    expect(calls.letters.map(letter => letter.x)).toEqual([700, 700]);
+  });
+
+  it('types along the tilted baseline when gravity leans', () => {
+    const { simulation, calls } = createSimulation({ gravityAngle: 90 });
+    const typewriter = new TypewriterService(simulation);
+    typewriter.setAnchor({ x: 100, y: 500 }, 0);
+    typeAll(typewriter, 'ab');
+
+    // Gravity pulls right, so lines read upwards
+    expect(calls.letters[1].x).toBeCloseTo(100);
+    expect(calls.letters[1].y).toBeCloseTo(477);
+  });
+
+  it('holds a whole word until it ends, then drops it where it began', () => {
+    const { simulation, calls } = createSimulation({ wholeWords: true });
+    const typewriter = new TypewriterService(simulation);
+    typewriter.setAnchor({ x: 100, y: 200 }, 0);
+    typeAll(typewriter, 'ab');
+
+    expect(typewriter.hasPendingWord).toBe(true);
+    expect(calls.words).toEqual([]);
+    typewriter.type(' ', 30);
+    expect(typewriter.hasPendingWord).toBe(false);
+    expect(calls.words).toEqual([{ word: 'ab', x: 100, y: 200 }]);
+    expect(calls.letters).toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+import { getGlyphAdvance } from './glyphService';
+import { getBaselineDirection, getWordOrigin, isPastLineEnd } from './gravityService';
+import { SeededRandom } from './randomService';
+import { PendingWord, Simulation } from './simulationService';
+
+export const WORD_PAUSE_MS = 600; // Time to wait before starting a new word position
+export const REVEAL_DELAY_MS = 2000; // Pause after a performance's last letter before the text reassembles
+export const PERFORM_TAIL_MS = 5000; // Time a performance runs on after its last letter, for a clean recording tail
+const WRAP_PAUSE_MS = 400; // Extra breath the auto-typist takes when a line wraps
+const DEFAULT_DROP_Y = 100; // Default Vertical start position
+
+// Delay after auto-typing `char` at `wpm`: a little uneven, longer after word breaks and
+// when the line wrapped. Live and exported takes share it so they type alike.
+export const getAutoTypeDelay = (char: string, wpm: number, random: SeededRandom, wrapped: boolean): number => {
+  let delay = 60000 / (wpm * 6);
+  delay = delay * (0.8 + random.next() * 0.4);
+
+  if (char === ' ' || char === '.' || char === ',') {
+      delay *= 2;
+  }
+  if (wrapped) delay += WRAP_PAUSE_MS;
+  return delay;
+};
+
+// The typing cursor shared by the keyboard, the hidden input and auto-type: where the
+// next letter drops, when a word ends, and (in whole-word mode) the word being built.
+// Framework-free like the simulation it types into; callers supply the clock.
+export class TypewriterService {
+  public x: number = 0;
+  public y: number = DEFAULT_DROP_Y;
+  // Click-set origin every word starts from; null drops words along the edge gravity points away from
+  public anchor: { x: number, y: number } | null = null;
+  public maxLetters: number = Infinity;
+
+  // Color for the word being started, and hooks for the app's palette and sounds
+  public getColor: () => string = () => '#292524';
+  public onNewWord?: () => void;
+  public onType?: (char: string) => void;
+
+  private lastTypeTime: number = 0;
+  // The character typed last since the cursor was placed; the next one is set its
+  // measured advance along from it
+  private lastChar: string | null = null;
+  // Letters of the current word in whole-word mode, waiting for the word to end
+  private wordBuffer: PendingWord | null = null;
+  // Picks where un-anchored words start; seeded via setRandom for reproducible takes
+  private random: () => number = Math.random;
+
+  // Swapped by the app when the simulation moves to or from a worker
+  constructor(public simulation: Simulation) {}
+
+  public setRandom(random: SeededRandom) {
+    const cursorRandom = random.fork('cursor');
+    this.random = () => cursorRandom.next();
+  }
+
+  // Distance between two letters' centers along the baseline: their measured widths and
+  // kerning, at least the visual width, but respecting wider bodies if spacing > 1
+  private getAdvance(prev: string, char: string): number {
+    const { fontSize, spacing } = this.simulation.config;
+    return getGlyphAdvance(prev, char, this.simulation.fontFamily, fontSize) * Math.max(1, spacing);
+  }
+
+  public get hasPendingWord(): boolean {
+    return this.wordBuffer !== null;
+  }
+
+  /**
+   * Types one character at time `now`. A pause longer than WORD_PAUSE_MS or running
+   * past the end of the line starts a new word first. Whitespace ends the word; with
+   * `spaceStartsWord` it also returns the cursor to the word origin, as auto-type does,
+   * instead of just moving along the line. Returns true if the cursor wrapped.
+   */
+  public type(char: string, now: number, spaceStartsWord: boolean = false): boolean {
+    if (now - this.lastTypeTime > WORD_PAUSE_MS) {
+        this.startWord();
+    }
+    if (this.lastChar !== null) this.advanceCursor(this.getAdvance(this.lastChar, char));
+
+    const wrapped = this.isPastLineEnd();
+    if (wrapped) this.startWord();
+
+    // A Windows line break is a single cluster
+    if (char === ' ' || char === '\n' || char === '\r' || char === '\r\n') {
+        if (spaceStartsWord) {
+            this.startWord();
+        } else {
+            this.flushWord();
+            this.simulation.endWord();
+            this.lastChar = char;
+        }
+    } else {
+        this.placeChar(char);
+        this.lastChar = char;
+    }
+
+    this.lastTypeTime = now;
+    return wrapped;
+  }
+
+  // Moves the cursor to the next word origin; whatever comes next starts a new word
+  // (and a new chain in linked-words mode)
+  public startWord() {
+    this.flushWord();
+    this.simulation.endWord();
+    this.onNewWord?.();
+    this.lastChar = null;
+
+    if (this.anchor) {
+        this.x = this.anchor.x;
+        this.y = this.anchor.y;
+    } else {
+        const origin = getWordOrigin(this.simulation.config.gravityAngle, this.simulation.width, this.simulation.height, DEFAULT_DROP_Y, this.random());
+        this.x = origin.x;
+        this.y = origin.y;
+    }
+  }
+
+  // Sets (or clears) the click origin. Setting it counts as typing, so the next
+  // character lands right there instead of starting another word.
+  public setAnchor(point: { x: number, y: number } | null, now: number) {
+    this.anchor = point;
+    if (point) {
+        this.x = point.x;
+        this.y = point.y;
+        this.lastChar = null;
+        this.lastTypeTime = now;
+    } else {
+        this.y = DEFAULT_DROP_Y;
+    }
+  }
+
+  // The next character starts a new word, however soon it comes
+  public newLine() {
+    this.lastTypeTime = -Infinity;
+  }
+
+  // Drops the buffered word, if any, as one body (whole-word mode)
+  public flushWord() {
+    const pending = this.wordBuffer;
+    if (!pending) return;
+    this.wordBuffer = null;
+    this.simulation.addWord(pending.word, pending.x, pending.y, pending.color);
+    this.simulation.pruneLetters(this.maxLetters);
+  }
+
+  // Forgets the buffered word without dropping it, e.g. when the world is cleared
+  public discardWord() {
+    this.wordBuffer = null;
+    this.simulation.previewWord('', 0, 0, '');
+  }
+
+  // Places one character at the cursor: straight away as a letter, or into the
+  // word buffer in whole-word mode
+  private placeChar(char: string) {
+    if (this.simulation.config.wholeWords) {
+        const pending = this.wordBuffer;
+        this.wordBuffer = pending
+            ? { ...pending, word: pending.word + char }
+            : { word: char, x: this.x, y: this.y, color: this.getColor() };
+        const { word, x, y, color } = this.wordBuffer;
+        this.simulation.previewWord(word, x, y, color);
+    } else {
+        this.simulation.addText(char, this.x, this.y, this.getColor());
+        this.simulation.pruneLetters(this.maxLetters);
+    }
+    this.onType?.(char);
+  }
+
+  // Move the cursor along the baseline, which tilts with gravity
+  private advanceCursor(distance: number) {
+    const baseline = getBaselineDirection(this.simulation.config.gravityAngle);
+    this.x += baseline.x * distance;
+    this.y += baseline.y * distance;
+  }
+
+  private isPastLineEnd(): boolean {
+    return isPastLineEnd({ x: this.x, y: this.y }, this.simulation.config.gravityAngle, this.simulation.width, this.simulation.height);
+  }
+}
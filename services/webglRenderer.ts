@@ -0,0 +1,325 @@
+import { DEFAULT_LETTER_COLOR, getFadeStyle, getLetterFont, getSpriteAngle, GLYPH_BASELINE_SHIFT, LETTER_SHADOW, RenderFrame, Renderer } from './rendererService';
+import { isColorGlyph } from './textService';
+
+type Rect = [number, number, number, number];
+
+const MAX_ATLAS_SIZE = 4096; // px per side of the glyph atlas texture, where the GPU allows it
+const MIN_CELLS_PER_ROW = 16; // the atlas drops resolution before it holds fewer glyphs than this squared
+// Floats per instance: local rect, atlas rect, transform (x, y, angle, scale), premultiplied color
+const FLOATS_PER_INSTANCE = 16;
+// Shadows are rendered this far off-canvas so only their blur lands in the atlas
+const SHADOW_THROW = 10000;
+const WHITE = [1, 1, 1, 1];
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_corner;
+in vec4 a_rect;
+in vec4 a_uv;
+in vec4 a_transform;
+in vec4 a_color;
+uniform vec2 u_resolution;
+out vec2 v_uv;
+out vec4 v_color;
+
+void main() {
+  vec2 local = mix(a_rect.xy, a_rect.zw, a_corner) * a_transform.w;
+  float c = cos(a_transform.z);
+  float s = sin(a_transform.z);
+  vec2 position = vec2(local.x * c - local.y * s, local.x * s + local.y * c) + a_transform.xy;
+  vec2 clip = position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_uv = mix(a_uv.xy, a_uv.zw, a_corner);
+  v_color = a_color;
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec2 v_uv;
+in vec4 v_color;
+uniform sampler2D u_atlas;
+out vec4 outColor;
+
+void main() {
+  outColor = v_color * texture(u_atlas, v_uv);
+}`;
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string): WebGLShader => {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(`Shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+  }
+  return shader;
+};
+
+// Resolves any CSS color to premultiplied-ready RGBA in 0-1, cached per string
+const colorCache = new Map<string, [number, number, number, number]>();
+let colorCtx: CanvasRenderingContext2D | null = null;
+const parseColor = (color: string): [number, number, number, number] => {
+  const cached = colorCache.get(color);
+  if (cached) return cached;
+  if (!colorCtx) colorCtx = document.createElement('canvas').getContext('2d')!;
+  colorCtx.fillStyle = '#000';
+  colorCtx.fillStyle = color;
+  const normalized = String(colorCtx.fillStyle);
+
+  let rgba: [number, number, number, number] = [0, 0, 0, 1];
+  if (normalized.startsWith('#')) {
+    const value = parseInt(normalized.slice(1), 16);
+    rgba = [(value >> 16 & 255) / 255, (value >> 8 & 255) / 255, (value & 255) / 255, 1];
+  } else {
+    const parts = normalized.replace(/[^\d.,]/g, '').split(',').map(Number);
+    rgba = [parts[0] / 255, parts[1] / 255, parts[2] / 255, parts[3] ?? 1];
+  }
+  colorCache.set(color, rgba);
+  return rgba;
+};
+
+/**
+ * Draws every glyph as an instanced quad sampling a glyph atlas: one draw call per
+ * frame however many letters there are. Each character is rasterized twice into the
+ * atlas, as a white mask and as its blurred shadow, and tinted in the shader. Color
+ * emoji keep their own colors, tinted white. Jelly letters are drawn rigid, turned
+ * like their ring.
+ */
+export class WebGLRenderer implements Renderer {
+  public readonly kind = 'webgl';
+  public readonly element: HTMLCanvasElement;
+
+  private gl: WebGL2RenderingContext;
+  private program: WebGLProgram;
+  private instanceBuffer: WebGLBuffer;
+  private atlas: WebGLTexture;
+  private resolutionLocation: WebGLUniformLocation | null;
+  private width = 0;
+  private height = 0;
+  private pixelRatio = 1;
+  private instances = new Float32Array(0);
+  private atlasSize: number;
+
+  // Atlas bookkeeping: cells are `cell` CSS px drawn at `atlasScale` device px per CSS px
+  private atlasKey = '';
+  private cell = 0;
+  private atlasScale = 1;
+  private cellsPerRow = 0;
+  private nextCell = 0;
+  private slots = new Map<string, { glyph: Rect, shadow: Rect }>();
+  private scratch = document.createElement('canvas');
+
+  // Throws where WebGL2 isn't available, so the caller can fall back to Canvas
+  constructor() {
+    this.element = document.createElement('canvas');
+    const gl = this.element.getContext('webgl2', { premultipliedAlpha: true, antialias: false });
+    if (!gl) throw new Error('WebGL2 is not supported');
+    this.gl = gl;
+
+    const program = gl.createProgram()!;
+    gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+    gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Shader program failed to link: ${gl.getProgramInfoLog(program)}`);
+    }
+    this.program = program;
+    this.resolutionLocation = gl.getUniformLocation(program, 'u_resolution');
+
+    const vao = gl.createVertexArray();
+    gl.bindVertexArray(vao);
+
+    // One unit quad, stretched over each instance's rect
+    const corners = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, corners);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+    const cornerLocation = gl.getAttribLocation(program, 'a_corner');
+    gl.enableVertexAttribArray(cornerLocation);
+    gl.vertexAttribPointer(cornerLocation, 2, gl.FLOAT, false, 0, 0);
+
+    this.instanceBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    ['a_rect', 'a_uv', 'a_transform', 'a_color'].forEach((name, i) => {
+      const location = gl.getAttribLocation(program, name);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, 4, gl.FLOAT, false, FLOATS_PER_INSTANCE * 4, i * 16);
+      gl.vertexAttribDivisor(location, 1);
+    });
+
+    this.atlas = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, this.atlas);
+    // Premultiplied like the blending, so a white mask samples as its coverage
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    this.atlasSize = Math.min(MAX_ATLAS_SIZE, gl.getParameter(gl.MAX_TEXTURE_SIZE));
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, this.atlasSize, this.atlasSize, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  public resize(width: number, height: number, pixelRatio: number) {
+    this.width = width;
+    this.height = height;
+    this.pixelRatio = pixelRatio;
+    this.element.width = width * pixelRatio;
+    this.element.height = height * pixelRatio;
+    this.element.style.width = `${width}px`;
+    this.element.style.height = `${height}px`;
+  }
+
+  public draw(frame: RenderFrame) {
+    const gl = this.gl;
+    this.prepareAtlas(frame);
+
+    // Two instances per glyph: its shadow, then the glyph on top
+    const glyphCount = frame.sprites.reduce((sum, sprite) => sum + sprite.glyphs.length, 0);
+    if (this.instances.length < glyphCount * 2 * FLOATS_PER_INSTANCE) {
+      this.instances = new Float32Array(glyphCount * 2 * FLOATS_PER_INSTANCE * 2);
+    }
+    const shadowColor = parseColor(LETTER_SHADOW.color);
+    const half = this.cell / 2;
+    let count = 0;
+    const push = (rect: Rect, uv: Rect, x: number, y: number, angle: number, scale: number, color: number[], alpha: number) => {
+      const offset = count * FLOATS_PER_INSTANCE;
+      const a = color[3] * alpha;
+      this.instances.set([...rect, ...uv, x, y, angle, scale, color[0] * a, color[1] * a, color[2] * a, a], offset);
+      count++;
+    };
+
+    gl.viewport(0, 0, this.element.width, this.element.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    frame.sprites.forEach(sprite => {
+      const { alpha, scale } = getFadeStyle(sprite);
+      if (alpha <= 0) return;
+      const angle = getSpriteAngle(sprite);
+      const color = parseColor(sprite.color || DEFAULT_LETTER_COLOR);
+
+      sprite.glyphs.forEach(glyph => {
+        // A full atlas starts over, but only after what's queued so far is drawn from it
+        if (!this.slots.has(glyph.char) && this.isAtlasFull()) {
+          this.flush(count);
+          count = 0;
+          this.resetAtlas();
+        }
+        const slot = this.getSlot(glyph.char, frame);
+        const glyphColor = isColorGlyph(glyph.char) ? WHITE : color;
+        if (!slot) return;
+        const cy = glyph.offset.y + GLYPH_BASELINE_SHIFT;
+        let rect: Rect = [glyph.offset.x - half, cy - half, glyph.offset.x + half, cy + half];
+        let glyphUv = slot.glyph;
+        let shadowUv = slot.shadow;
+
+        // A shard shows just its piece of the glyph
+        if (sprite.clip) {
+          const clipped: Rect = [
+            Math.max(rect[0], -sprite.clip.width / 2), Math.max(rect[1], -sprite.clip.height / 2),
+            Math.min(rect[2], sprite.clip.width / 2), Math.min(rect[3], sprite.clip.height / 2),
+          ];
+          if (clipped[0] >= clipped[2] || clipped[1] >= clipped[3]) return;
+          const crop = (uv: Rect): Rect => [
+            uv[0] + (uv[2] - uv[0]) * (clipped[0] - rect[0]) / this.cell,
+            uv[1] + (uv[3] - uv[1]) * (clipped[1] - rect[1]) / this.cell,
+            uv[0] + (uv[2] - uv[0]) * (clipped[2] - rect[0]) / this.cell,
+            uv[1] + (uv[3] - uv[1]) * (clipped[3] - rect[1]) / this.cell,
+          ];
+          glyphUv = crop(slot.glyph);
+          shadowUv = crop(slot.shadow);
+          rect = clipped;
+        }
+
+        // Canvas shadows fall the same way however the letter is turned
+        push(rect, shadowUv, sprite.x + LETTER_SHADOW.offsetX, sprite.y + LETTER_SHADOW.offsetY, angle, scale, shadowColor, alpha);
+        push(rect, glyphUv, sprite.x, sprite.y, angle, scale, glyphColor, alpha);
+      });
+    });
+
+    this.flush(count);
+  }
+
+  public destroy() {
+    this.gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+
+  // Draws the first `count` queued instances
+  private flush(count: number) {
+    if (count === 0) return;
+    const gl = this.gl;
+    gl.useProgram(this.program);
+    gl.uniform2f(this.resolutionLocation, this.width, this.height);
+    gl.bindTexture(gl.TEXTURE_2D, this.atlas);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this.instances.subarray(0, count * FLOATS_PER_INSTANCE), gl.DYNAMIC_DRAW);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count);
+  }
+
+  // Starts a fresh atlas when the font or resolution changes. Cells fit the widest bold
+  // glyphs plus their shadow's blur.
+  private prepareAtlas(frame: RenderFrame) {
+    const key = `${frame.fontFamily}|${frame.fontSize}|${this.pixelRatio}`;
+    if (key === this.atlasKey) return;
+    this.atlasKey = key;
+    this.cell = Math.ceil(frame.fontSize * 1.6 + LETTER_SHADOW.blur * 4);
+    this.atlasScale = Math.min(this.pixelRatio, this.atlasSize / (this.cell * MIN_CELLS_PER_ROW));
+    this.cellsPerRow = Math.floor(this.atlasSize / Math.ceil(this.cell * this.atlasScale));
+    this.resetAtlas();
+  }
+
+  private resetAtlas() {
+    this.slots.clear();
+    this.nextCell = 0;
+  }
+
+  private isAtlasFull(): boolean {
+    return this.nextCell + 2 > this.cellsPerRow * this.cellsPerRow;
+  }
+
+  // Atlas cells of `char`, rasterizing it on first use. The caller makes room first.
+  private getSlot(char: string, frame: RenderFrame): { glyph: Rect, shadow: Rect } | null {
+    const existing = this.slots.get(char);
+    if (existing) return existing;
+    if (this.isAtlasFull()) return null;
+
+    const cellPx = Math.ceil(this.cell * this.atlasScale);
+    const uvOf = (index: number): Rect => {
+      const x = (index % this.cellsPerRow) * cellPx;
+      const y = Math.floor(index / this.cellsPerRow) * cellPx;
+      return [x / this.atlasSize, y / this.atlasSize, (x + cellPx) / this.atlasSize, (y + cellPx) / this.atlasSize];
+    };
+    const slot = { glyph: uvOf(this.nextCell), shadow: uvOf(this.nextCell + 1) };
+
+    this.scratch.width = cellPx;
+    this.scratch.height = cellPx;
+    const ctx = this.scratch.getContext('2d')!;
+    const gl = this.gl;
+    gl.bindTexture(gl.TEXTURE_2D, this.atlas);
+    [false, true].forEach((isShadow, i) => {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, cellPx, cellPx);
+      ctx.setTransform(this.atlasScale, 0, 0, this.atlasScale, 0, 0);
+      ctx.font = getLetterFont(frame.fontSize, frame.fontFamily);
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = '#fff';
+      if (isShadow) {
+        // Shadow offsets and blur ignore the transform, so they're given in device px
+        ctx.shadowColor = '#fff';
+        ctx.shadowBlur = LETTER_SHADOW.blur * this.atlasScale;
+        ctx.shadowOffsetX = SHADOW_THROW * this.atlasScale;
+        ctx.fillText(char, this.cell / 2 - SHADOW_THROW, this.cell / 2);
+        ctx.shadowColor = 'transparent';
+      } else {
+        ctx.fillText(char, this.cell / 2, this.cell / 2);
+      }
+      const index = this.nextCell + i;
+      gl.texSubImage2D(gl.TEXTURE_2D, 0, (index % this.cellsPerRow) * cellPx, Math.floor(index / this.cellsPerRow) * cellPx, gl.RGBA, gl.UNSIGNED_BYTE, this.scratch);
+    });
+
+    this.nextCell += 2;
+    this.slots.set(char, slot);
+    return slot;
+  }
+}
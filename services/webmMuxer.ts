@@ -0,0 +1,230 @@
+// Just enough Matroska to hold one video track and, optionally, one Opus track from
+// WebCodecs. The file is assembled once at the end, so every element size is known and
+// no seeking is needed. Encoded frames go into Blobs as they arrive, which the browser
+// may keep on disk, rather than piling up in script memory.
+
+// Element ids, with their length marker bits as they appear in the file
+const EBML = 0x1A45DFA3;
+const EBML_VERSION = 0x4286;
+const EBML_READ_VERSION = 0x42F7;
+const EBML_MAX_ID_LENGTH = 0x42F2;
+const EBML_MAX_SIZE_LENGTH = 0x42F3;
+const DOC_TYPE = 0x4282;
+const DOC_TYPE_VERSION = 0x4287;
+const DOC_TYPE_READ_VERSION = 0x4285;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549A966;
+const TIMECODE_SCALE = 0x2AD7B1;
+const DURATION = 0x4489;
+const MUXING_APP = 0x4D80;
+const WRITING_APP = 0x5741;
+const TRACKS = 0x1654AE6B;
+const TRACK_ENTRY = 0xAE;
+const TRACK_NUMBER = 0xD7;
+const TRACK_UID = 0x73C5;
+const TRACK_TYPE = 0x83;
+const CODEC_ID = 0x86;
+const CODEC_PRIVATE = 0x63A2;
+const SEEK_PRE_ROLL = 0x56BB;
+const VIDEO = 0xE0;
+const PIXEL_WIDTH = 0xB0;
+const PIXEL_HEIGHT = 0xBA;
+const AUDIO = 0xE1;
+const SAMPLING_FREQUENCY = 0xB5;
+const CHANNELS = 0x9F;
+const CLUSTER = 0x1F43B675;
+const TIMECODE = 0xE7;
+const SIMPLE_BLOCK = 0xA3;
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+// Block times are 16-bit offsets from their cluster's time, in ms
+const MAX_CLUSTER_SPAN = 30000;
+const OPUS_SEEK_PRE_ROLL_NS = 80000000;
+// libopus's lookahead at 48 kHz, for encoders that don't describe their stream
+const OPUS_PRE_SKIP = 312;
+
+export type WebmVideoCodec = 'V_VP9' | 'V_VP8';
+
+interface Block {
+  track: number;
+  time: number; // ms
+  keyFrame: boolean;
+  data: Blob;
+}
+
+type Bytes = (Uint8Array | Blob)[];
+
+const length = (parts: Bytes): number =>
+  parts.reduce((sum, part) => sum + (part instanceof Blob ? part.size : part.length), 0);
+
+const idBytes = (id: number): Uint8Array => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xFF);
+  return new Uint8Array(bytes);
+};
+
+// Sizes are always written in 8 bytes: wasteful but valid, and simple
+const sizeBytes = (size: number): Uint8Array => {
+  const bytes = new Uint8Array(8);
+  bytes[0] = 0x01;
+  for (let i = 7, value = size; i > 0; i--, value = Math.floor(value / 256)) bytes[i] = value & 0xFF;
+  return bytes;
+};
+
+const element = (id: number, children: Bytes): Bytes => [idBytes(id), sizeBytes(length(children)), ...children];
+
+const uintElement = (id: number, value: number): Bytes => {
+  const bytes: number[] = [];
+  for (let rest = value; bytes.length === 0 || rest > 0; rest = Math.floor(rest / 256)) bytes.unshift(rest & 0xFF);
+  return element(id, [new Uint8Array(bytes)]);
+};
+
+const floatElement = (id: number, value: number): Bytes => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, [bytes]);
+};
+
+const stringElement = (id: number, value: string): Bytes => element(id, [new TextEncoder().encode(value)]);
+
+// The Opus identification header Matroska wants as the track's codec private data
+const createOpusHead = (channels: number, sampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  head[8] = 1; // version
+  head[9] = channels;
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // mapping family: mono or stereo
+  return head;
+};
+
+/**
+ * Collects encoded chunks from a VideoEncoder (and an Opus AudioEncoder) and writes
+ * them out as a WebM file. Chunks may arrive in any order between tracks; each
+ * track's must be in time order.
+ */
+export class WebmMuxer {
+  private blocks: Block[] = [];
+  private audio: { channels: number, sampleRate: number, description?: Uint8Array } | null = null;
+
+  constructor(private codec: WebmVideoCodec, private width: number, private height: number) {}
+
+  public setAudio(channels: number, sampleRate: number) {
+    this.audio = { channels, sampleRate };
+  }
+
+  public addVideoChunk(chunk: EncodedVideoChunk) {
+    this.addChunk(VIDEO_TRACK, chunk);
+  }
+
+  public addAudioChunk(chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata) {
+    const description = metadata?.decoderConfig?.description;
+    if (this.audio && description && !this.audio.description) {
+      this.audio.description = description instanceof ArrayBuffer
+        ? new Uint8Array(description)
+        : new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice();
+    }
+    this.addChunk(AUDIO_TRACK, chunk);
+  }
+
+  // Writes the file. `duration` is in ms.
+  public finish(duration: number): Blob {
+    const tracks: Bytes = [
+      ...element(TRACK_ENTRY, [
+        ...uintElement(TRACK_NUMBER, VIDEO_TRACK),
+        ...uintElement(TRACK_UID, VIDEO_TRACK),
+        ...uintElement(TRACK_TYPE, 1),
+        ...stringElement(CODEC_ID, this.codec),
+        ...element(VIDEO, [
+          ...uintElement(PIXEL_WIDTH, this.width),
+          ...uintElement(PIXEL_HEIGHT, this.height),
+        ]),
+      ]),
+    ];
+    if (this.audio) {
+      const { channels, sampleRate, description } = this.audio;
+      tracks.push(...element(TRACK_ENTRY, [
+        ...uintElement(TRACK_NUMBER, AUDIO_TRACK),
+        ...uintElement(TRACK_UID, AUDIO_TRACK),
+        ...uintElement(TRACK_TYPE, 2),
+        ...stringElement(CODEC_ID, 'A_OPUS'),
+        ...element(CODEC_PRIVATE, [description ?? createOpusHead(channels, sampleRate)]),
+        ...uintElement(SEEK_PRE_ROLL, OPUS_SEEK_PRE_ROLL_NS),
+        ...element(AUDIO, [
+          ...floatElement(SAMPLING_FREQUENCY, sampleRate),
+          ...uintElement(CHANNELS, channels),
+        ]),
+      ]));
+    }
+
+    const segment: Bytes = [
+      ...element(INFO, [
+        ...uintElement(TIMECODE_SCALE, 1000000), // ms
+        ...floatElement(DURATION, duration),
+        ...stringElement(MUXING_APP, 'Wordfall'),
+        ...stringElement(WRITING_APP, 'Wordfall'),
+      ]),
+      ...element(TRACKS, tracks),
+      ...this.writeClusters(),
+    ];
+
+    const file: Bytes = [
+      ...element(EBML, [
+        ...uintElement(EBML_VERSION, 1),
+        ...uintElement(EBML_READ_VERSION, 1),
+        ...uintElement(EBML_MAX_ID_LENGTH, 4),
+        ...uintElement(EBML_MAX_SIZE_LENGTH, 8),
+        ...stringElement(DOC_TYPE, 'webm'),
+        ...uintElement(DOC_TYPE_VERSION, 4),
+        ...uintElement(DOC_TYPE_READ_VERSION, 2),
+      ]),
+      ...element(SEGMENT, segment),
+    ];
+    return new Blob(file, { type: 'video/webm' });
+  }
+
+  private addChunk(track: number, chunk: EncodedVideoChunk | EncodedAudioChunk) {
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    this.blocks.push({ track, time: chunk.timestamp / 1000, keyFrame: chunk.type === 'key', data: new Blob([data]) });
+  }
+
+  // Interleaves both tracks in time order. A cluster starts at every video key frame
+  // (so players can seek to it) or when block offsets would overflow.
+  private writeClusters(): Bytes {
+    const blocks = [...this.blocks].sort((a, b) => a.time - b.time || a.track - b.track);
+    const clusters: Bytes = [];
+    let cluster: Bytes = [];
+    let clusterTime = 0;
+
+    const closeCluster = () => {
+      if (cluster.length > 0) clusters.push(...element(CLUSTER, cluster));
+      cluster = [];
+    };
+
+    blocks.forEach(block => {
+      const time = Math.round(block.time);
+      const startsCluster = cluster.length === 0
+        || (block.track === VIDEO_TRACK && block.keyFrame)
+        || time - clusterTime >= MAX_CLUSTER_SPAN;
+      if (startsCluster) {
+        closeCluster();
+        clusterTime = time;
+        cluster.push(...uintElement(TIMECODE, clusterTime));
+      }
+
+      const header = new Uint8Array(4);
+      header[0] = 0x80 | block.track; // track number as a 1-byte vint
+      new DataView(header.buffer).setInt16(1, time - clusterTime);
+      header[3] = block.keyFrame ? 0x80 : 0;
+      cluster.push(...element(SIMPLE_BLOCK, [header, block.data]));
+    });
+    closeCluster();
+
+    return clusters;
+  }
+}
@@ -0,0 +1,301 @@
+import { CollisionEvent, ForceField, Obstacle, PhysicsConfig, SceneSnapshot } from '../types';
+import { getGlyphShape, GlyphShape, measureRun } from './glyphService';
+import { isGravityTurnOnly } from './gravityService';
+import { createObstacleBodies } from './obstacleService';
+import { SeededRandom } from './randomService';
+import { LetterSprite, PendingWord, SceneBodies, Simulation, SimulationOptions } from './simulationService';
+import { splitGraphemes } from './textService';
+
+// Floats per letter in a frame's transform buffer: x, y, angle, fade, settled (0 or 1),
+// and where a jelly letter's mesh starts in the frame's mesh buffer (-1 for none)
+export const TRANSFORM_STRIDE = 6;
+// Simulated time is dropped rather than queue more steps than this while the worker catches up
+const MAX_QUEUED_STEPS = 4;
+
+// Glyph outlines traced on the main thread, keyed by character, and widths of characters
+// and neighbouring pairs, keyed by text
+export type GlyphShapes = Record<string, GlyphShape>;
+export type GlyphWidths = Record<string, number>;
+
+// Messages from the main thread to the physics worker
+export type WorkerRequest =
+  | { type: 'init', options: SimulationOptions }
+  | { type: 'step', count: number }
+  | { type: 'seed', seed: number }
+  | { type: 'config', config: PhysicsConfig }
+  | { type: 'gravity', angle: number }
+  | { type: 'font', fontFamily: string }
+  | { type: 'forceFields', fields: ForceField[] }
+  | { type: 'resize', width: number, height: number }
+  | { type: 'addText', text: string, x?: number, y?: number, color?: string, shapes: GlyphShapes, widths: GlyphWidths }
+  | { type: 'addWord', word: string, x?: number, y?: number, color?: string, shapes: GlyphShapes, widths: GlyphWidths }
+  | { type: 'endWord' }
+  | { type: 'clearLetters' }
+  | { type: 'prune', maxCount: number }
+  | { type: 'addObstacle', obstacle: Obstacle }
+  | { type: 'removeObstacle', id: string }
+  | { type: 'clearObstacles' }
+  | { type: 'grab', point: { x: number, y: number } }
+  | { type: 'drag', point: { x: number, y: number } }
+  | { type: 'release' }
+  | { type: 'reassemble', active: boolean }
+  | { type: 'capture', requestId: number }
+  | { type: 'restore', snapshot: SceneSnapshot, shapes: GlyphShapes, widths: GlyphWidths };
+
+// The parts of a sprite that don't change from frame to frame
+type SpriteInfo = Omit<LetterSprite, 'x' | 'y' | 'angle' | 'fade' | 'settled' | 'mesh'>;
+
+// Messages from the physics worker back to the main thread
+export type WorkerEvent =
+  // Sent after every batch of steps. `ids[i]` owns transforms[i * TRANSFORM_STRIDE ...];
+  // `sprites` describes letters the main thread hasn't seen yet (or whose glyphs moved).
+  // `meshes` holds jelly letters' node positions as x, y pairs.
+  | { type: 'frame', time: number, ids: Uint32Array, transforms: Float32Array, meshes: Float32Array, sprites: SpriteInfo[], collisions: CollisionEvent[], sedimentVersion: number }
+  | { type: 'scene', requestId: number, scene: SceneBodies };
+
+// Traces and measures the glyphs of `text` so the worker builds the same bodies the page would
+const traceGlyphs = (text: string, config: PhysicsConfig, fontFamily: string): { shapes: GlyphShapes, widths: GlyphWidths } => {
+  const chars = splitGraphemes(text);
+  const shapes: GlyphShapes = {};
+  if (config.bodyShape === 'glyph') {
+    chars.forEach(char => {
+      if (char in shapes) return;
+      const shape = getGlyphShape(char, fontFamily, config.fontSize);
+      if (shape) shapes[char] = shape;
+    });
+  }
+  return { shapes, widths: measureRun(chars, fontFamily, config.fontSize) };
+};
+
+/**
+ * Runs the simulation in a Web Worker and mirrors it on the main thread, which only
+ * draws. Commands go over as messages; each step comes back as packed transforms.
+ * Reads reflect the last frame received, so they trail the worker by one frame.
+ */
+export class WorkerSimulation implements Simulation {
+  public config: PhysicsConfig;
+  public width: number;
+  public height: number;
+  public fontFamily: string;
+  public forceFields: ForceField[] = [];
+  public pendingWord: PendingWord | null = null;
+  public time: number = 0;
+  public sedimentVersion: number = 0;
+  public reassembling: boolean = false;
+  public onStep?: (time: number) => void;
+  public onCollision?: (impact: CollisionEvent) => void;
+
+  private worker: Worker;
+  private obstacles: Obstacle[] = [];
+  // Per-letter glyphs and colors, sent once per letter, and the latest frame's transforms
+  private spriteInfo = new Map<number, SpriteInfo>();
+  private ids = new Uint32Array(0);
+  private transforms = new Float32Array(0);
+  private meshes = new Float32Array(0);
+
+  private stepInFlight = false;
+  private queuedSteps = 0;
+  private nextRequestId = 0;
+  private pendingCaptures = new Map<number, (scene: SceneBodies) => void>();
+
+  constructor(options: SimulationOptions) {
+    this.config = options.config;
+    this.width = options.width;
+    this.height = options.height;
+    this.fontFamily = options.fontFamily;
+
+    this.worker = new Worker(new URL('./simulationWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<WorkerEvent>) => this.handleEvent(e.data);
+    this.worker.onerror = (e) => console.error("Physics worker failed:", e.message);
+    this.post({ type: 'init', options });
+  }
+
+  public step(count: number = 1) {
+    this.queuedSteps = Math.min(MAX_QUEUED_STEPS, this.queuedSteps + count);
+    this.sendQueuedSteps();
+  }
+
+  public setRandom(random: SeededRandom) {
+    this.post({ type: 'seed', seed: random.seed });
+  }
+
+  public setFontFamily(fontFamily: string) {
+    if (fontFamily === this.fontFamily) return;
+    this.fontFamily = fontFamily;
+    this.post({ type: 'font', fontFamily });
+  }
+
+  public setForceFields(fields: ForceField[]) {
+    this.forceFields = fields;
+    this.post({ type: 'forceFields', fields });
+  }
+
+  public setConfig(config: PhysicsConfig) {
+    if (config === this.config) return;
+    // Turning gravity leaves the letters as they are, so the worker needn't describe them again
+    const message: WorkerRequest = isGravityTurnOnly(this.config, config)
+        ? { type: 'gravity', angle: config.gravityAngle }
+        : { type: 'config', config };
+    this.config = config;
+    this.post(message);
+  }
+
+  public resize(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.post({ type: 'resize', width, height });
+  }
+
+  public getSprites(): LetterSprite[] {
+    const sprites: LetterSprite[] = [];
+    for (let i = 0; i < this.ids.length; i++) {
+        const info = this.spriteInfo.get(this.ids[i]);
+        if (!info) continue;
+        const offset = i * TRANSFORM_STRIDE;
+        sprites.push({
+            ...info,
+            x: this.transforms[offset],
+            y: this.transforms[offset + 1],
+            angle: this.transforms[offset + 2],
+            fade: this.transforms[offset + 3],
+            settled: this.transforms[offset + 4] === 1,
+            mesh: this.getMesh(this.transforms[offset + 5], info.meshRest),
+        });
+    }
+    return sprites;
+  }
+
+  public getObstacles(): Obstacle[] {
+    return [...this.obstacles];
+  }
+
+  public addText(text: string, x?: number, y?: number, color?: string) {
+    this.post({ type: 'addText', text, x, y, color, ...traceGlyphs(text, this.config, this.fontFamily) });
+  }
+
+  public addWord(word: string, x?: number, y?: number, color?: string) {
+    if (!word) return;
+    this.post({ type: 'addWord', word, x, y, color, ...traceGlyphs(word, this.config, this.fontFamily) });
+    this.pendingWord = null;
+  }
+
+  public previewWord(word: string, x: number, y: number, color: string) {
+    this.pendingWord = word ? { word, x, y, color } : null;
+  }
+
+  public endWord() {
+    this.post({ type: 'endWord' });
+  }
+
+  public clearLetters() {
+    this.post({ type: 'clearLetters' });
+    this.pendingWord = null;
+  }
+
+  public pruneLetters(maxCount: number) {
+    this.post({ type: 'prune', maxCount });
+  }
+
+  public addObstacle(obstacle: Obstacle): boolean {
+    if (createObstacleBodies(obstacle).length === 0) return false;
+    this.obstacles.push(obstacle);
+    this.post({ type: 'addObstacle', obstacle });
+    return true;
+  }
+
+  public removeObstacle(id: string) {
+    this.obstacles = this.obstacles.filter(obstacle => obstacle.id !== id);
+    this.post({ type: 'removeObstacle', id });
+  }
+
+  public clearObstacles() {
+    this.obstacles = [];
+    this.post({ type: 'clearObstacles' });
+  }
+
+  public grab(point: { x: number, y: number }) {
+    this.post({ type: 'grab', point });
+  }
+
+  public drag(point: { x: number, y: number }) {
+    this.post({ type: 'drag', point });
+  }
+
+  public release() {
+    this.post({ type: 'release' });
+  }
+
+  public setReassembling(active: boolean) {
+    this.reassembling = active;
+    this.post({ type: 'reassemble', active });
+  }
+
+  public captureScene(): Promise<SceneBodies> {
+    const requestId = this.nextRequestId++;
+    return new Promise(resolve => {
+        this.pendingCaptures.set(requestId, resolve);
+        this.post({ type: 'capture', requestId });
+    });
+  }
+
+  public restoreScene(snapshot: SceneSnapshot) {
+    this.config = snapshot.config;
+    this.fontFamily = snapshot.font;
+    this.obstacles = [...snapshot.obstacles];
+    this.pendingWord = null;
+    // Spaced apart so neighbouring letters can't run together into one cluster
+    const text = snapshot.letters.map(letter => letter.char).join(' ');
+    this.post({ type: 'restore', snapshot, ...traceGlyphs(text, snapshot.config, snapshot.font) });
+  }
+
+  public destroy() {
+    this.worker.terminate();
+    this.pendingCaptures.clear();
+  }
+
+  private post(request: WorkerRequest) {
+    this.worker.postMessage(request);
+  }
+
+  private getMesh(start: number, rest?: { x: number, y: number }[]): { x: number, y: number }[] | undefined {
+    if (start < 0 || !rest) return undefined;
+    return rest.map((_, i) => ({ x: this.meshes[start + i * 2], y: this.meshes[start + i * 2 + 1] }));
+  }
+
+  private sendQueuedSteps() {
+    if (this.stepInFlight || this.queuedSteps === 0) return;
+    // Fixed-step takes type on the simulation clock, so they must hear about every step
+    // before the next to replay identically; real time may batch
+    const count = this.config.fixedStep ? 1 : this.queuedSteps;
+    this.post({ type: 'step', count });
+    this.queuedSteps -= count;
+    this.stepInFlight = true;
+  }
+
+  private handleEvent(event: WorkerEvent) {
+    if (event.type === 'scene') {
+        this.pendingCaptures.get(event.requestId)?.(event.scene);
+        this.pendingCaptures.delete(event.requestId);
+        return;
+    }
+
+    this.time = event.time;
+    this.sedimentVersion = event.sedimentVersion;
+    this.ids = event.ids;
+    this.transforms = event.transforms;
+    this.meshes = event.meshes;
+    event.sprites.forEach(sprite => this.spriteInfo.set(sprite.id, sprite));
+    // Forget letters that are gone; ids are never reused
+    if (this.spriteInfo.size > this.ids.length) {
+        const alive = new Set(this.ids);
+        Array.from<number>(this.spriteInfo.keys()).forEach(id => {
+            if (!alive.has(id)) this.spriteInfo.delete(id);
+        });
+    }
+
+    this.stepInFlight = false;
+    event.collisions.forEach(impact => this.onCollision?.(impact));
+    this.onStep?.(event.time);
+    this.sendQueuedSteps();
+  }
+}
@@ -3,12 +3,79 @@
 import Matter from 'matter-js';
 
 export interface PhysicsConfig {
-  gravity: number;
+  gravity: number; // Magnitude
+  gravityAngle: number; // Degrees from straight down, positive pulls towards the right
+  gravitySpin: number; // Degrees per second the world slowly rotates; 0 = still
   restitution: number; // Bounciness
   friction: number;
   scale: number;
   fontSize: number;
   spacing: number;
+  bodyShape: BodyShape;
+  wholeWords: boolean; // Each typed word falls as a single rigid body
+  linkWords: boolean; // Join consecutive letters of a word with springy links
+  linkStiffness: number; // 0-1, Matter constraint stiffness
+  linkBreakStrength: number; // px a link may stretch past its rest length before it snaps
+  sediment: boolean; // Letters that stay at rest freeze into a static heap that is never pruned
+  materials: Material[]; // Per-character overrides of the above; the first match wins
+  impactThreshold: number; // px per step a repeat hit must reach to count as an impact
+  impactRateLimit: number; // ms a letter waits after an impact before it reports another
+  shatter: boolean; // Letters break into fading shards when they hit hard
+  shatterSpeed: number; // px per step of impact speed that shatters a letter
+  jellyStiffness: number; // 0-1, stiffness of the springs holding jelly letters together
+  jellyDamping: number; // 0-1, how quickly jelly letters stop wobbling
+  boundaries: BoundaryConfigs;
+  container: Container | null; // Outline holding the text, inside the viewport walls
+  seed: number; // Seeds every random choice in the simulation, typing and sound
+  fixedStep: boolean; // Time typing on the simulation clock, stepped one fixed delta at a time, for reproducible takes
+  workerPhysics: boolean; // Step the engine in a Web Worker; the page only draws
+  renderer: RendererKind; // Backend that draws the letters
+  look: LetterLook; // Visual style letters are drawn in
+}
+
+// 'canvas' draws with Canvas2D; 'webgl' batches every glyph into one instanced draw;
+// 'svg' keeps letters as text elements for screen readers and vector output
+export type RendererKind = 'canvas' | 'webgl' | 'svg';
+
+// How letters are drawn beyond their fill: 'trails' leaves fading afterimages of moving
+// letters, 'glow' haloes them in their own color, 'outline' strokes them, 'letterpress'
+// presses them into the page and 'ink' bleeds a mark wherever a letter comes to rest
+export type LookStyle = 'plain' | 'trails' | 'glow' | 'outline' | 'letterpress' | 'ink';
+
+export interface LetterLook {
+  style: LookStyle;
+  intensity: number; // 0-1, how strong the effect is
+  size: number; // Style-specific extent, see LOOK_STYLES
+}
+
+export interface SavedLook {
+  id: string;
+  name: string;
+  look: LetterLook;
+}
+
+// 'box' uses a fixed rectangle per letter; 'glyph' traces the character's outline;
+// 'jelly' makes each letter a springy ring of circles that squishes as it lands
+export type BodyShape = 'box' | 'glyph' | 'jelly';
+
+// Which characters a material applies to; 'chars' lists them explicitly
+export type MaterialMatch = 'uppercase' | 'lowercase' | 'vowels' | 'digits' | 'punctuation' | 'chars';
+
+// Voice for a letter's typing and landing sounds in place of the default chime
+export type SoundProfile = 'chime' | 'thud' | 'pluck' | 'bell';
+
+// Physical properties for a class of characters. Density and air friction are in
+// Matter's units (defaults 0.001 and 0.01).
+export interface Material {
+  id: string;
+  name: string;
+  match: MaterialMatch;
+  chars: string;
+  density: number;
+  restitution: number;
+  friction: number;
+  frictionAir: number;
+  sound?: SoundProfile;
 }
 
 export enum WallType {
@@ -18,9 +85,177 @@ export enum WallType {
   CEILING = 'CEILING',
 }
 
+export interface BoundaryConfig {
+  enabled: boolean;
+  restitution: number;
+  friction: number;
+  // Letters leaving through this edge reappear at the opposite one.
+  // A wrapping edge has no wall body, regardless of `enabled`.
+  wrap: boolean;
+}
+
+export type BoundaryConfigs = Record<WallType, BoundaryConfig>;
+
+// A silhouette whose outline holds falling text, in its own units; it is scaled to fit
+// the viewport. `paths` are polylines, and closed outlines end on their first point.
+export interface Container {
+  name: string;
+  paths: { x: number; y: number }[][];
+  openTop: boolean; // Cut a mouth into the top of closed outlines so letters can fall in
+}
+
+export type ObstacleKind = 'line' | 'polyline' | 'circle';
+
+// Static shapes drawn by the user, stored in viewport pixels.
+// Lines and polylines use `points`; circles use `points[0]` as the center plus `radius`.
+export interface Obstacle {
+  id: string;
+  kind: ObstacleKind;
+  points: { x: number; y: number }[];
+  radius?: number;
+}
+
+export type ForceFieldKind = 'wind' | 'attractor' | 'repeller' | 'vortex';
+
+// A circular zone that pushes on letters inside it. `strength` is in units of
+// the default gravity; `angle` is the push direction for wind (radians).
+export interface ForceField {
+  id: string;
+  kind: ForceFieldKind;
+  x: number;
+  y: number;
+  radius: number;
+  strength: number;
+  angle: number;
+}
+
+// Active editing tool on the canvas; null means normal typing/dragging.
+// 'fields' shows the force-field handles for moving and resizing.
+export type EditTool = ObstacleKind | 'select' | 'fields' | null;
+
+// Letter hitting another letter, a boundary wall or an obstacle
+export type CollisionKind = 'letter-letter' | 'letter-wall' | 'letter-obstacle';
+
+// A letter (or whole-word) body taking part in a collision
+export interface CollisionBody {
+  id: number;
+  // The whole word for whole-word bodies
+  char: string;
+  color: string;
+  sound?: SoundProfile;
+}
+
+// One impact, reported when a letter first touches anything and on later hits that are
+// hard enough. `a` is always a letter; `b` is the other letter, or null for walls and
+// obstacles. `speed` is the relative speed along the contact normal, in px per step.
+export interface CollisionEvent {
+  kind: CollisionKind;
+  a: CollisionBody;
+  b: CollisionBody | null;
+  wallType?: WallType; // Unset for a container's outline
+  point: { x: number; y: number };
+  speed: number;
+  firstContact: boolean;
+  time: number;
+}
+
 export interface LetterBody extends Matter.Body {
   char?: string;
   hasCollided?: boolean;
 }
 
 export type SchemeMode = 'monochrome' | 'monochrome-dark' | 'monochrome-light' | 'analogic' | 'complement' | 'analogic-complement' | 'triad' | 'quad';
+
+// Where a letter body sat, upright, when it was typed
+export interface LetterHome {
+  x: number;
+  y: number;
+  angle: number;
+}
+
+// Everything needed to rebuild one letter body
+export interface LetterSnapshot {
+  // The whole word for whole-word bodies, which are marked with `word`
+  char: string;
+  word?: boolean;
+  // Soft-body letter; restored in its rest shape
+  jelly?: boolean;
+  color: string;
+  x: number;
+  y: number;
+  angle: number;
+  velocity: { x: number; y: number };
+  angularVelocity: number;
+  createdAt: number;
+  hasCollided: boolean;
+  isDying: boolean;
+  dyingSince?: number;
+  // Frozen into the sediment heap
+  sediment?: boolean;
+  // Slot the letter was typed into, which reassemble mode pulls it back to
+  home?: LetterHome;
+}
+
+// A word-chain link between letters[a] and letters[b], anchors relative to each body
+export interface LinkSnapshot {
+  a: number;
+  b: number;
+  pointA: { x: number; y: number };
+  pointB: { x: number; y: number };
+  length: number;
+}
+
+// Serialized world. `time` is the simulation clock at capture; createdAt and
+// dyingSince are on that clock and get shifted onto the live one on restore.
+export interface SceneSnapshot {
+  version: number;
+  time: number;
+  width: number;
+  height: number;
+  letters: LetterSnapshot[];
+  links?: LinkSnapshot[];
+  obstacles: Obstacle[];
+  forceFields: ForceField[];
+  config: PhysicsConfig;
+  font: string;
+  palette: {
+    seedColor: string;
+    schemeMode: SchemeMode;
+    colors: string[];
+  };
+}
+
+// Video capture of Perform Mode takes. The width follows the viewport's aspect ratio.
+export interface RecordingSettings {
+  enabled: boolean;
+  height: number; // Output height in px; 0 records at the canvas's own resolution
+  frameRate: number;
+  bitrate: number; // Video bitrate in Mbps
+}
+
+export type ExportFormat = 'webm' | 'png';
+
+// Offline render of a Perform Mode take, stepped frame by frame rather than in real time
+export interface ExportSettings {
+  format: ExportFormat;
+  height: number; // Output height in px; the width follows the viewport's aspect ratio
+  frameRate: number;
+  bitrate: number; // Video bitrate in Mbps
+}
+
+export type PosterFormat = 'png' | 'svg';
+
+export interface PosterSettings {
+  format: PosterFormat;
+  width: number; // Output width in px; the height follows the viewport's aspect ratio
+  dpi: number; // Print resolution stored in the file, so it opens at its printed size
+  background: string | null; // null for transparent
+  title: string; // Set in a block under the composition; empty for none
+}
+
+export interface SavedScene {
+  id: string;
+  name: string;
+  savedAt: number;
+  snapshot: SceneSnapshot;
+}